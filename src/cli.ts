@@ -1,17 +1,76 @@
 #!/usr/bin/env bun
-import { spawnSync } from "node:child_process";
-import { existsSync, writeFileSync, unlinkSync, mkdirSync, rmSync, copyFileSync, readdirSync, statSync } from "node:fs";
-import { resolve, relative, sep, join, basename } from "node:path";
+import { spawnSync, type StdioOptions } from "node:child_process";
+import {
+  existsSync,
+  writeFileSync,
+  unlinkSync,
+  mkdirSync,
+  rmSync,
+  copyFileSync,
+  readdirSync,
+  statSync,
+  readFileSync,
+} from "node:fs";
+import { resolve, relative, sep, join, basename, extname } from "node:path";
+import { pathToFileURL } from "node:url";
+import { brotliCompressSync, gzipSync } from "node:zlib";
+import { DEFAULT_API_ENTRY, loadConfig } from "./config";
+import { docker } from "./docker";
+import { init } from "./init";
+import {
+  COMPILE_TARGET,
+  MANIFEST_FILE,
+  OPENAPI_FILE,
+  binaryName,
+  checkBudget,
+  describeStaticFiles,
+  formatSize,
+  formatSummary,
+  isServerOutput,
+  parseSize,
+  totalSize,
+  type BuildManifest,
+  type SizeBudget,
+} from "./manifest";
+
+/**
+ * An API entry file bundled under a path prefix.
+ */
+export interface BuildMount {
+  /**
+   * Path to the API entry file.
+   */
+  apiEntry: string;
+  /**
+   * Path prefix the API module is routed under.
+   */
+  prefix: string;
+}
 
 /**
  * Build options for customizing output directories.
  */
 export interface BuildOptions {
+  /**
+   * Path to the project config file. Options passed here take precedence over it.
+   * @default "vite-elysia-forge.config.ts" (when it exists)
+   */
+  config?: string;
   /**
    * Path to the API entry file.
    * @default "src/server/api.ts"
    */
   apiEntry?: string;
+  /**
+   * Path prefix the API module is routed under.
+   * @default "/api"
+   */
+  apiPrefix?: string;
+  /**
+   * Several API entry files, each mounted under its own prefix.
+   * When set, `apiEntry` is ignored and the modules are composed into one Elysia app.
+   */
+  mounts?: BuildMount[];
   /**
    * Output directory for the Vite/frontend static assets.
    * @default "dist"
@@ -24,6 +83,73 @@ export interface BuildOptions {
    * @default "dist" (same as staticDir)
    */
   serverDir?: string;
+  /**
+   * Path to an SSR entry module exporting `render(url, context)`. When set, it is built
+   * with `vite build --ssr` and bundled into the server, which then renders pages with it.
+   */
+  ssrEntry?: string;
+  /**
+   * Whether to write an OpenAPI document (`openapi.json`) next to the server bundle.
+   * @default false
+   */
+  openapi?: boolean;
+  /**
+   * Whether to write `.br` and `.gz` siblings next to compressible static files,
+   * which the production server serves to clients that accept them.
+   * @default false
+   */
+  compress?: boolean;
+  /**
+   * Platforms to compile standalone binaries for with `buildCompile`, e.g. "bun-linux-arm64" or
+   * "bun-linux-x64-musl". Each binary is written to `<serverDir>/server-<platform>`.
+   * @default the host platform, written to `<serverDir>/server`
+   */
+  targets?: string[];
+  /**
+   * Whether `buildCompile` embeds the static output into the binary, which then serves it from
+   * memory and runs without `staticDir` next to it.
+   * @default false
+   */
+  embedStatic?: boolean;
+  /**
+   * Source maps for the server bundle: written to `server.js.map` ("external"), appended to
+   * `server.js` ("inline") or none. Bun resolves stack traces through them, including those of
+   * compiled binaries, which embed the map.
+   * @default "none"
+   */
+  sourcemap?: "none" | "inline" | "external";
+  /**
+   * Packages left out of the server bundle and imported from `node_modules` at runtime,
+   * e.g. native modules.
+   */
+  external?: string[];
+  /**
+   * Identifiers replaced with a constant expression in the server bundle, e.g.
+   * `{ "process.env.BUILD_ID": '"a1b2c3"' }`. Values are JavaScript expressions.
+   */
+  define?: Record<string, string>;
+  /**
+   * Whether to minify the server bundle.
+   * @default true
+   */
+  minify?: boolean;
+  /**
+   * Whether to split dynamically imported modules of the server into chunks, written to
+   * `<serverDir>/server-chunks`.
+   * @default false
+   */
+  splitting?: boolean;
+  /**
+   * Maximum sizes of the server bundle and of static JavaScript/CSS chunks. The build fails
+   * when one is exceeded.
+   */
+  budget?: SizeBudget;
+  /**
+   * Whether to print the build manifest as JSON on stdout instead of the size summary.
+   * Progress is then written to stderr.
+   * @default false
+   */
+  json?: boolean;
   /**
    * Whether to skip the Vite frontend build.
    * Useful when you only want to rebuild the server.
@@ -56,32 +182,416 @@ function copyDir(src: string, dest: string): void {
   }
 }
 
-export async function build(options: BuildOptions | string = {}): Promise<void> {
+/**
+ * `startServer` options read from environment variables by the generated server entry,
+ * falling back to the `server` options of the config file (`serverConfig`).
+ * TLS is enabled when both `TLS_CERT` and `TLS_KEY` are set (PEM contents or file paths),
+ * and the access log when `ACCESS_LOG` is set to "combined" or "json".
+ */
+const SERVER_ENV_OPTIONS = `  port: process.env.PORT ? parseInt(process.env.PORT) : (serverConfig.port ?? 3000),
+  hostname: process.env.HOST || serverConfig.hostname,
+  unix: process.env.UNIX_SOCKET || serverConfig.unix,
+  tls:
+    process.env.TLS_CERT && process.env.TLS_KEY
+      ? {
+          cert: process.env.TLS_CERT,
+          key: process.env.TLS_KEY,
+          ca: process.env.TLS_CA,
+          passphrase: process.env.TLS_PASSPHRASE,
+        }
+      : serverConfig.tls,
+  accessLog: process.env.ACCESS_LOG
+    ? { format: process.env.ACCESS_LOG === "json" ? "json" : "combined", file: process.env.ACCESS_LOG_FILE }
+    : serverConfig.accessLog,
+  securityHeaders:
+    process.env.SECURITY_HEADERS || process.env.CONTENT_SECURITY_POLICY
+      ? { contentSecurityPolicy: process.env.CONTENT_SECURITY_POLICY }
+      : serverConfig.securityHeaders,`;
+
+/**
+ * Applies the project config file under `options`, which take precedence (e.g. command-line
+ * flags). A single API entry in `options` replaces the mounts of the config file. The returned
+ * options point `config` at the file that was loaded, if any.
+ */
+async function resolveBuildOptions(options: BuildOptions | string): Promise<BuildOptions> {
   // Support legacy string argument for backward compatibility
   const opts: BuildOptions = typeof options === "string" ? { apiEntry: options } : options;
 
-  const apiEntry = opts.apiEntry || "src/server/api.ts";
+  let loaded: Awaited<ReturnType<typeof loadConfig>>;
+  try {
+    loaded = await loadConfig(process.cwd(), opts.config);
+  } catch (e) {
+    console.error(`❌ Failed to load config file "${opts.config ?? "vite-elysia-forge.config.ts"}"`);
+    console.error(e);
+    process.exit(1);
+  }
+  if (!loaded) return opts;
+
+  const { config } = loaded;
+  const overrides = Object.fromEntries(Object.entries(opts).filter(([, value]) => value !== undefined));
+  return {
+    apiEntry: config.apiEntry,
+    apiPrefix: config.apiPrefix,
+    mounts: opts.apiEntry && !opts.mounts ? undefined : config.mounts,
+    ssrEntry: config.ssrEntry,
+    ...config.build,
+    ...overrides,
+    config: loaded.file,
+  };
+}
+
+/**
+ * Turns the path of `file` relative to `fromDir` into an import specifier.
+ */
+function toImportPath(fromDir: string, file: string): string {
+  // Normalize path separators for imports (Windows support)
+  const path = relative(fromDir, resolve(process.cwd(), file)).split(sep).join("/");
+  return path.startsWith(".") ? path : "./" + path;
+}
+
+/**
+ * Source map modes of the server bundle.
+ */
+const SOURCEMAP_MODES = ["none", "inline", "external"];
+
+/**
+ * Lists the files of a directory recursively, as paths relative to it with "/" separators.
+ */
+function listFiles(dir: string, prefix = ""): string[] {
+  return readdirSync(dir)
+    .sort()
+    .flatMap((entry) => {
+      const path = join(dir, entry);
+      return statSync(path).isDirectory() ? listFiles(path, `${prefix}${entry}/`) : [`${prefix}${entry}`];
+    });
+}
+
+/**
+ * Writes a progress message. Builds with `json` pass `console.error`, as stdout carries the manifest.
+ */
+type Logger = (message: string) => void;
+
+/**
+ * Compiles a server entry into one standalone binary per target, or a single binary for the
+ * host platform when no target is given. `flags` are passed to each `bun build --compile`.
+ * Returns the exit status of a failed compilation, or 0.
+ */
+function compileBinaries(
+  entry: string,
+  serverDir: string,
+  targets: string[],
+  flags: string[],
+  stdio: StdioOptions,
+  log: Logger
+): number {
+  const binaries = targets.length > 0 ? targets : [undefined];
+
+  for (const target of binaries) {
+    const name = binaryName(target);
+    log(`🔧 Compiling server to standalone binary${target ? ` for ${target}` : ""}...`);
+
+    const outputPath = resolve(process.cwd(), serverDir, name);
+    const targetArgs = target ? ["--target", target] : [];
+    const args = ["build", "--compile", entry, "--outfile", outputPath, ...targetArgs, ...flags];
+    const compile = spawnSync("bun", args, {
+      stdio,
+      env: { ...process.env, NODE_ENV: "production" },
+    });
+
+    if (compile.status !== 0) return compile.status || 1;
+    log(`✅ Compiled standalone binary: ${serverDir}/${name}`);
+  }
+
+  return 0;
+}
+
+/**
+ * Static files worth precompressing.
+ */
+const COMPRESSIBLE_FILE = /\.(html?|m?js|css|json|map|svg|xml|txt|wasm)$/;
+
+/**
+ * Writes brotli and gzip siblings for compressible files in a directory, recursively.
+ * Returns the number of files compressed.
+ */
+function compressDir(dir: string, threshold = 1024): number {
+  let count = 0;
+  for (const entry of readdirSync(dir)) {
+    const filePath = join(dir, entry);
+    const stat = statSync(filePath);
+    if (stat.isDirectory()) {
+      count += compressDir(filePath, threshold);
+    } else if (COMPRESSIBLE_FILE.test(entry) && stat.size >= threshold) {
+      const content = readFileSync(filePath);
+      writeFileSync(filePath + ".br", brotliCompressSync(content));
+      writeFileSync(filePath + ".gz", gzipSync(content));
+      count++;
+    }
+  }
+  return count;
+}
+
+type RouteInfo = { method: string; path: string; hooks?: { detail?: Record<string, unknown> } };
+
+type OpenApiDocument = {
+  openapi: string;
+  info: Record<string, unknown>;
+  paths: Record<string, Record<string, unknown>>;
+  components?: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+};
+
+/**
+ * Matches the JSON endpoint registered by `@elysiajs/openapi` and `@elysiajs/swagger`.
+ */
+const OPENAPI_JSON_ROUTE = /\/(openapi|swagger)\/json$/;
+
+/**
+ * Builds a minimal OpenAPI document from an Elysia route table, for apps that
+ * do not mount an OpenAPI plugin.
+ */
+function openApiFromRoutes(routes: RouteInfo[]): OpenApiDocument {
+  const paths: OpenApiDocument["paths"] = {};
+
+  for (const route of routes) {
+    const method = route.method.toLowerCase();
+    if (!["get", "put", "post", "delete", "options", "head", "patch", "trace"].includes(method)) continue;
+
+    const parameters = [...route.path.matchAll(/:(\w+)/g)].map((match) => ({
+      name: match[1],
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    }));
+    const path = route.path.replace(/:(\w+)/g, "{$1}");
+
+    paths[path] = {
+      ...paths[path],
+      [method]: {
+        ...(parameters.length > 0 ? { parameters } : {}),
+        responses: { 200: { description: "OK" } },
+        ...route.hooks?.detail,
+      },
+    };
+  }
+
+  return { openapi: "3.0.3", info: { title: "API", version: "0.0.0" }, paths };
+}
+
+/**
+ * Loads an API entry file and extracts its OpenAPI document, preferring the one served
+ * by a mounted OpenAPI/Swagger plugin and falling back to the route table.
+ */
+async function loadOpenApiDocument(apiEntry: string): Promise<OpenApiDocument> {
+  const mod = await import(pathToFileURL(resolve(process.cwd(), apiEntry)).href);
+  const api = mod.api;
+  if (!api || typeof api.handle !== "function") {
+    throw new Error(`"${apiEntry}" does not export an Elysia app as \`api\``);
+  }
+
+  const routes: RouteInfo[] = api.routes || [];
+  const specRoute = routes.find((route) => route.method === "GET" && OPENAPI_JSON_ROUTE.test(route.path));
+  if (specRoute) {
+    const response: Response = await api.handle(new Request(`http://localhost${specRoute.path}`));
+    if (response.ok) return (await response.json()) as OpenApiDocument;
+  }
+
+  return openApiFromRoutes(routes);
+}
+
+/**
+ * Writes the OpenAPI document of the API entry (or all mounted entries) to
+ * `<serverDir>/openapi.json` and returns the written path. Progress is written with `log`.
+ */
+export async function generateOpenApi(
+  options: BuildOptions | string = {},
+  log: (message: string) => void = console.log
+): Promise<string> {
+  const opts = await resolveBuildOptions(options);
+  const serverDir = opts.serverDir || opts.staticDir || "dist";
+  const apiEntries =
+    opts.mounts && opts.mounts.length > 0
+      ? opts.mounts.map((mount) => mount.apiEntry)
+      : [opts.apiEntry || DEFAULT_API_ENTRY];
+
+  log(`📄 Generating OpenAPI document...`);
+
+  let document: OpenApiDocument | undefined;
+  try {
+    for (const entry of apiEntries) {
+      const next = await loadOpenApiDocument(entry);
+      if (!document) {
+        document = next;
+        continue;
+      }
+
+      // Merge additional mounts into the first document
+      document.paths = { ...document.paths, ...next.paths };
+      for (const [section, values] of Object.entries(next.components || {})) {
+        document.components = document.components || {};
+        document.components[section] = { ...document.components[section], ...values };
+      }
+    }
+  } catch (e) {
+    console.error("❌ Failed to generate OpenAPI document");
+    console.error(e);
+    process.exit(1);
+  }
+
+  const absServerDir = resolve(process.cwd(), serverDir);
+  if (!existsSync(absServerDir)) mkdirSync(absServerDir, { recursive: true });
+  const outputPath = join(absServerDir, OPENAPI_FILE);
+  writeFileSync(outputPath, JSON.stringify(document, null, 2) + "\n");
+
+  log(`✅ OpenAPI document written to "${serverDir}/${OPENAPI_FILE}"`);
+  return outputPath;
+}
+
+export async function build(options: BuildOptions | string = {}): Promise<void> {
+  await buildWithManifest(await resolveBuildOptions(options), false);
+}
+
+export async function buildCompile(options: BuildOptions | string = {}): Promise<void> {
+  await buildWithManifest(await resolveBuildOptions(options), true);
+}
+
+/**
+ * Runs a build, writes its manifest to `<serverDir>/build-manifest.json` and prints a size
+ * summary, or the manifest itself with `json`. Fails when the build exceeds its size budget.
+ */
+async function buildWithManifest(opts: BuildOptions, compile: boolean): Promise<BuildManifest> {
+  const invalidBudget = Object.entries(opts.budget || {}).find(
+    ([, size]) => size !== undefined && parseSize(size) === undefined
+  );
+  if (invalidBudget) {
+    console.error(`❌ Invalid ${invalidBudget[0]} size budget "${invalidBudget[1]}". Use bytes or e.g. 500kb, 2mb`);
+    process.exit(1);
+  }
+
+  const startedAt = performance.now();
+  // With --json, stdout carries only the manifest, so progress goes to stderr
+  const log: Logger = opts.json ? console.error : console.log;
+  const timings = await runBuild(opts, compile, log);
+
+  const staticDir = opts.staticDir || "dist";
+  const serverDir = opts.serverDir || staticDir;
+  const size = (path: string) => statSync(resolve(process.cwd(), path), { throwIfNoEntry: false })?.size ?? 0;
+  const toPath = (path: string) => path.replace(/^\.\//, "").split(sep).join("/");
+
+  const mounts = opts.mounts && opts.mounts.length > 0 ? opts.mounts : undefined;
+  const targets = compile ? opts.targets || [] : [];
+  const staticFiles = describeStaticFiles(
+    resolve(process.cwd(), staticDir),
+    (file) => staticDir === serverDir && isServerOutput(file, opts.openapi)
+  );
+
+  const manifest: BuildManifest = {
+    builtAt: new Date().toISOString(),
+    api: mounts
+      ? mounts.map((mount) => ({ entry: toPath(mount.apiEntry), prefix: mount.prefix }))
+      : [{ entry: toPath(opts.apiEntry || DEFAULT_API_ENTRY), prefix: opts.apiPrefix || "/api" }],
+    ...(opts.ssrEntry ? { ssrEntry: toPath(opts.ssrEntry) } : {}),
+    server: opts.skipServer
+      ? null
+      : { path: `${toPath(serverDir)}/server.js`, size: size(join(serverDir, "server.js")) },
+    binaries: compile
+      ? (targets.length > 0 ? targets : [undefined]).map((target) => ({
+          path: `${toPath(serverDir)}/${binaryName(target)}`,
+          target: target ?? null,
+          size: size(join(serverDir, binaryName(target))),
+        }))
+      : [],
+    static: {
+      dir: toPath(staticDir),
+      size: totalSize(staticFiles),
+      files: staticFiles,
+    },
+    targets,
+    timings: { ...timings, total: Math.round(performance.now() - startedAt) },
+  };
+  if (opts.budget) manifest.budget = checkBudget(manifest, opts.budget);
+
+  const absServerDir = resolve(process.cwd(), serverDir);
+  if (!existsSync(absServerDir)) mkdirSync(absServerDir, { recursive: true });
+  writeFileSync(join(absServerDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + "\n");
+
+  if (opts.json) {
+    console.log(JSON.stringify(manifest, null, 2));
+  } else {
+    log(`\n📊 Build summary (${MANIFEST_FILE} written to "${serverDir}")`);
+    log(formatSummary(manifest));
+  }
+
+  const exceeded = manifest.budget?.exceeded || [];
+  if (exceeded.length > 0) {
+    console.error("❌ Size budget exceeded:");
+    for (const file of exceeded) {
+      console.error(`   ${file.path}: ${formatSize(file.size)} (budget ${formatSize(file.limit)})`);
+    }
+    process.exit(1);
+  }
+
+  return manifest;
+}
+
+/**
+ * Builds the frontend and the server bundle, then, with `compile`, the standalone binaries.
+ * Returns the duration of each step in milliseconds.
+ */
+async function runBuild(opts: BuildOptions, compile: boolean, log: Logger): Promise<Record<string, number>> {
+  const apiEntry = opts.apiEntry || DEFAULT_API_ENTRY;
   const staticDir = opts.staticDir || "dist";
   const serverDir = opts.serverDir || staticDir;
   const skipVite = opts.skipVite || false;
   const skipServer = opts.skipServer || false;
   const separateOutputs = staticDir !== serverDir;
 
-  const absoluteApiEntry = resolve(process.cwd(), apiEntry);
+  const mounts = opts.mounts && opts.mounts.length > 0 ? opts.mounts : undefined;
+  const apiEntries = mounts ? mounts.map((mount) => mount.apiEntry) : [apiEntry];
 
-  if (!skipServer && !existsSync(absoluteApiEntry)) {
-    console.error(`❌ API entry file "${apiEntry}" not found.`);
-    console.error(`   By default, vite-elysia-forge looks for "src/server/api.ts".`);
-    console.error(`   If your API is located elsewhere, please specify the path:`);
+  const missingEntry = skipServer ? undefined : apiEntries.find((entry) => !existsSync(resolve(process.cwd(), entry)));
+
+  if (missingEntry) {
+    console.error(`❌ API entry file "${missingEntry}" not found.`);
+    console.error(`   By default, vite-elysia-forge looks for "${DEFAULT_API_ENTRY}".`);
+    console.error(`   If your API is located elsewhere, set \`apiEntry\` in vite-elysia-forge.config.ts`);
+    console.error(`   or specify the path:`);
     console.error(`   $ vite-elysia-forge build --api <path-to-your-api-file>`);
     process.exit(1);
   }
 
+  const targets = compile ? opts.targets || [] : [];
+  const invalidTarget = targets.find((target) => !COMPILE_TARGET.test(target));
+  if (invalidTarget) {
+    console.error(`❌ Unknown compile target "${invalidTarget}".`);
+    console.error("   Use e.g. bun-linux-x64, bun-linux-x64-musl, bun-darwin-arm64 or bun-windows-x64");
+    process.exit(1);
+  }
+
+  const sourcemap = opts.sourcemap || "none";
+  if (!SOURCEMAP_MODES.includes(sourcemap)) {
+    console.error(`❌ Unknown source map mode "${sourcemap}". Use ${SOURCEMAP_MODES.join(", ")}`);
+    process.exit(1);
+  }
+  const minify = opts.minify ?? true;
+
+  // Child processes write to stderr too when stdout carries the JSON manifest
+  const stdio: StdioOptions = opts.json ? ["inherit", 2, "inherit"] : "inherit";
+  const timings: Record<string, number> = {};
+  const since = (start: number) => Math.round(performance.now() - start);
+
+  const ssrEntry = opts.ssrEntry;
+  if (ssrEntry && !skipServer && !existsSync(resolve(process.cwd(), ssrEntry))) {
+    console.error(`❌ SSR entry file "${ssrEntry}" not found.`);
+    process.exit(1);
+  }
+
   // Run vite build
   if (!skipVite) {
-    console.log(`📦 Building frontend to "${staticDir}"...`);
+    log(`📦 Building frontend to "${staticDir}"...`);
+    const start = performance.now();
     const viteBuild = spawnSync("bun", ["x", "vite", "build", "--outDir", staticDir], {
-      stdio: "inherit",
+      stdio,
       env: { ...process.env, NODE_ENV: "production" },
     });
 
@@ -89,12 +599,25 @@ export async function build(options: BuildOptions | string = {}): Promise<void>
       console.error("❌ Vite build failed");
       process.exit(viteBuild.status || 1);
     }
-    console.log(`✅ Frontend built to "${staticDir}"`);
+    timings.vite = since(start);
+    log(`✅ Frontend built to "${staticDir}"`);
+  }
+
+  if (opts.compress) {
+    const absStaticDir = resolve(process.cwd(), staticDir);
+    if (existsSync(absStaticDir)) {
+      const start = performance.now();
+      const count = compressDir(absStaticDir);
+      timings.compress = since(start);
+      log(`✅ Precompressed ${count} static file${count === 1 ? "" : "s"} (.br, .gz)`);
+    } else {
+      console.error(`⚠️  Static directory "${staticDir}" not found, skipping compression`);
+    }
   }
 
   if (skipServer) {
-    console.log("⏭️  Skipping server build (--skip-server)");
-    return;
+    log("⏭️  Skipping server build (--skip-server)");
+    return timings;
   }
 
   // Create a temporary entry file
@@ -102,11 +625,8 @@ export async function build(options: BuildOptions | string = {}): Promise<void>
   if (!existsSync(tempDir)) mkdirSync(tempDir, { recursive: true });
   const tempEntry = resolve(tempDir, ".temp-prod.ts");
 
-  // Calculate relative path from tempDir to api entry
-  let relativeApiEntry = relative(tempDir, absoluteApiEntry);
-  // Normalize path separators for imports (Windows support)
-  relativeApiEntry = relativeApiEntry.split(sep).join("/");
-  if (!relativeApiEntry.startsWith(".")) relativeApiEntry = "./" + relativeApiEntry;
+  // Calculate relative paths from tempDir to the api entries
+  const relativeApiEntries = apiEntries.map((entry) => toImportPath(tempDir, entry));
 
   // For separate outputs, the server needs to know the path to static assets
   // We use a relative path from serverDir to staticDir
@@ -122,34 +642,116 @@ export async function build(options: BuildOptions | string = {}): Promise<void>
     staticDirPath = "."; // Same directory
   }
 
-  const tempContent = `
-import { startServer } from "vite-elysia-forge/production";
-import { api } from ${JSON.stringify(relativeApiEntry)};
+  // Build the SSR entry with Vite, so framework plugins apply, and bundle its output into the server
+  let ssrImport = "";
+  if (ssrEntry) {
+    log(`📦 Building SSR entry "${ssrEntry}"...`);
+    const start = performance.now();
+    const ssrOutDir = resolve(tempDir, "ssr");
+    const ssrBuild = spawnSync("bun", ["x", "vite", "build", "--ssr", ssrEntry, "--outDir", ssrOutDir], {
+      stdio,
+      env: { ...process.env, NODE_ENV: "production" },
+    });
+
+    // Vite names the output after the entry, as .js or .mjs depending on the package type
+    const ssrName = basename(ssrEntry, extname(ssrEntry));
+    const ssrOutput = [".js", ".mjs"].map((ext) => ssrName + ext).find((file) => existsSync(join(ssrOutDir, file)));
+
+    if (ssrBuild.status !== 0 || !ssrOutput) {
+      console.error("❌ SSR build failed");
+      rmSync(tempDir, { recursive: true, force: true });
+      process.exit(ssrBuild.status || 1);
+    }
+    ssrImport = `import * as ssr from "./ssr/${ssrOutput}";\n`;
+    timings.ssr = since(start);
+  }
+
+  // Namespace imports, so the optional onStart/onShutdown hooks of each module can be picked up
+  const apiImports = relativeApiEntries
+    .map((entry, i) => `import * as apiModule${i} from ${JSON.stringify(entry)};`)
+    .join("\n");
+  const apiModules = relativeApiEntries.map((_, i) => `apiModule${i}`);
+
+  // Several modules are composed into one Elysia app
+  const elysiaImport = mounts ? 'import { Elysia } from "elysia";\n' : "";
+  const apiPrefix = mounts ? mounts.map((mount) => mount.prefix) : opts.apiPrefix;
+  const apiOptions = mounts
+    ? `api: new Elysia()${apiModules.map((module) => `.use(${module}.api)`).join("")},`
+    : "api: apiModule0.api,";
+
+  // The config file is bundled into the server, so its `server` options (including hooks) apply
+  const configImport = opts.config
+    ? `import forgeConfig from ${JSON.stringify(toImportPath(tempDir, opts.config))};\n`
+    : "";
+
+  // Embedded static files are imported as files, which `bun build --compile` bundles into the binary
+  const absStaticDir = resolve(process.cwd(), staticDir);
+  const embedStatic = compile && opts.embedStatic;
+  if (embedStatic && !existsSync(absStaticDir)) {
+    console.error(`❌ Static directory "${staticDir}" not found, nothing to embed`);
+    process.exit(1);
+  }
+  const embeddedFiles = embedStatic
+    ? listFiles(absStaticDir).filter((file) => separateOutputs || !isServerOutput(file, opts.openapi))
+    : [];
+  const assetImports = embeddedFiles.map((file) => JSON.stringify(toImportPath(tempDir, join(staticDir, file))));
+
+  const serverEntry = (embedded: string[]) => `
+${elysiaImport}import { startServer } from "vite-elysia-forge/production";
+${configImport}${ssrImport}${apiImports}
+${embedded.map((file, i) => `import asset${i} from ${assetImports[i]} with { type: "file" };\n`).join("")}
+const apiModules: Array<Record<string, any>> = [${apiModules.join(", ")}];
+const serverConfig: Partial<Parameters<typeof startServer>[0]> = ${opts.config ? "forgeConfig.server ?? {}" : "{}"};
 
 startServer({
-  api,
-  port: process.env.PORT ? parseInt(process.env.PORT) : 3000,
-  distDir: process.env.STATIC_DIR || ${JSON.stringify(staticDirPath)},
+  ...serverConfig,
+  ${apiOptions}${apiPrefix ? `\n  apiPrefix: ${JSON.stringify(apiPrefix)},` : ""}
+${SERVER_ENV_OPTIONS}
+  distDir: process.env.STATIC_DIR || ${JSON.stringify(staticDirPath)},${
+    // The OpenAPI document of a shared output directory is build output, not a frontend file
+    !separateOutputs && opts.openapi ? `\n  hiddenFiles: [${JSON.stringify(OPENAPI_FILE)}],` : ""
+  }${
+    embedded.length > 0
+      ? `\n  assets: { ${embedded.map((file, i) => `${JSON.stringify(file)}: asset${i}`).join(", ")} },`
+      : ""
+  }${ssrEntry ? "\n  ssr," : ""}
+  onStart: async (handle) => {
+    await serverConfig.onStart?.(handle);
+    for (const module of apiModules) await module.onStart?.(handle);
+  },
+  onShutdown: async () => {
+    for (const module of apiModules) await module.onShutdown?.();
+    await serverConfig.onShutdown?.();
+  },
 });
 `;
 
-  writeFileSync(tempEntry, tempContent);
+  writeFileSync(tempEntry, serverEntry([]));
 
   // Ensure server output directory exists
   const absServerDir = resolve(process.cwd(), serverDir);
   if (!existsSync(absServerDir)) mkdirSync(absServerDir, { recursive: true });
+  // Chunk names are hashed, so those of previous builds would pile up
+  if (opts.splitting) rmSync(join(absServerDir, "server-chunks"), { recursive: true, force: true });
 
-  console.log(`📦 Building server to "${serverDir}"...`);
+  log(`📦 Building server to "${serverDir}"...`);
 
   // We use Bun.build to bundle the server
   // This requires the script to be run with Bun
+  let compileStatus = 0;
   try {
+    let start = performance.now();
     const result = await Bun.build({
       entrypoints: [tempEntry],
       outdir: serverDir,
       target: "bun",
-      minify: true,
-      naming: "server.js", // Fixed name for simplicity
+      minify,
+      sourcemap,
+      external: opts.external,
+      define: opts.define,
+      splitting: opts.splitting || false,
+      // Fixed name for simplicity
+      naming: opts.splitting ? { entry: "server.js", chunk: "server-chunks/[name]-[hash].[ext]" } : "server.js",
     });
 
     if (!result.success) {
@@ -159,7 +761,34 @@ startServer({
       }
       process.exit(1);
     }
-    console.log(`✅ Server built to "${serverDir}/server.js"`);
+    timings.server = since(start);
+    log(`✅ Server built to "${serverDir}/server.js"`);
+
+    if (compile) {
+      // Packages left external in server.js would otherwise be bundled into the binary
+      let compileEntry = resolve(process.cwd(), serverDir, "server.js");
+      let compileFlags = (opts.external || []).flatMap((name) => ["--external", name]);
+
+      // Embedding needs the static imports, and source maps of server.js are not carried into
+      // the binary, so these binaries are compiled from the entry with the same bundle options
+      if (embedStatic || sourcemap !== "none") {
+        compileEntry = tempEntry;
+        if (embedStatic) {
+          compileEntry = resolve(tempDir, ".temp-embed.ts");
+          writeFileSync(compileEntry, serverEntry(embeddedFiles));
+          log(`📦 Embedding ${embeddedFiles.length} static file${embeddedFiles.length === 1 ? "" : "s"}`);
+        }
+        compileFlags = [
+          ...compileFlags,
+          ...(minify ? ["--minify"] : []),
+          ...(sourcemap !== "none" ? ["--sourcemap"] : []),
+          ...Object.entries(opts.define || {}).flatMap(([key, value]) => ["--define", `${key}=${value}`]),
+        ];
+      }
+      start = performance.now();
+      compileStatus = compileBinaries(compileEntry, serverDir, targets, compileFlags, stdio, log);
+      timings.compile = since(start);
+    }
   } catch (e) {
     console.error("❌ Failed to build server. Ensure you are running this command with Bun.");
     console.error(e);
@@ -174,36 +803,39 @@ startServer({
     }
   }
 
-  if (separateOutputs) {
-    console.log(`\n📁 Output structure:`);
-    console.log(`   Static assets: ${staticDir}/`);
-    console.log(`   Server bundle: ${serverDir}/server.js`);
-    console.log(`\n💡 To run: cd ${serverDir} && bun server.js`);
-    console.log(`   Or set STATIC_DIR to override the static assets path`);
+  if (compileStatus !== 0) {
+    console.error("❌ Bun compile failed");
+    process.exit(compileStatus);
   }
-}
 
-export async function buildCompile(options: BuildOptions | string = {}): Promise<void> {
-  // Support legacy string argument for backward compatibility
-  const opts: BuildOptions = typeof options === "string" ? { apiEntry: options } : options;
-  const serverDir = opts.serverDir || opts.staticDir || "dist";
-
-  await build(opts);
+  if (opts.openapi) {
+    const start = performance.now();
+    await generateOpenApi(opts, log);
+    timings.openapi = since(start);
+  }
 
-  console.log(`🔧 Compiling server to standalone binary...`);
-  const serverPath = resolve(process.cwd(), serverDir, "server.js");
-  const outputPath = resolve(process.cwd(), serverDir, "server");
+  if (separateOutputs) {
+    log(`\n📁 Output structure:`);
+    log(`   Static assets: ${staticDir}/`);
+    log(`   Server bundle: ${serverDir}/server.js`);
+    log(`\n💡 To run: cd ${serverDir} && bun server.js`);
+    log(`   Or set STATIC_DIR to override the static assets path`);
+  }
 
-  const compile = spawnSync("bun", ["build", "--compile", serverPath, "--outfile", outputPath], {
-    stdio: "inherit",
-    env: { ...process.env, NODE_ENV: "production" },
-  });
+  return timings;
+}
 
-  if (compile.status !== 0) {
-    console.error("❌ Bun compile failed");
-    process.exit(compile.status || 1);
+/**
+ * Turns the value of a `--define` flag into an expression: JSON values such as `42`, `false`
+ * or `"text"` are kept, anything else becomes a string.
+ */
+function defineValue(value: string): string {
+  try {
+    JSON.parse(value);
+    return value;
+  } catch {
+    return JSON.stringify(value);
   }
-  console.log(`✅ Compiled standalone binary: ${serverDir}/server`);
 }
 
 /**
@@ -217,6 +849,13 @@ function parseArgs(args: string[]): BuildOptions {
     const nextArg = args[i + 1];
 
     switch (arg) {
+      case "--config":
+      case "-c":
+        if (nextArg && !nextArg.startsWith("-")) {
+          opts.config = nextArg;
+          i++;
+        }
+        break;
       case "--api":
       case "-a":
         if (nextArg && !nextArg.startsWith("-")) {
@@ -238,6 +877,86 @@ function parseArgs(args: string[]): BuildOptions {
           i++;
         }
         break;
+      case "--mount":
+      case "-m":
+        if (nextArg && !nextArg.startsWith("-")) {
+          const separator = nextArg.indexOf("=");
+          if (separator > 0) {
+            opts.mounts = [
+              ...(opts.mounts || []),
+              { prefix: nextArg.slice(0, separator), apiEntry: nextArg.slice(separator + 1) },
+            ];
+          }
+          i++;
+        }
+        break;
+      case "--compress":
+        opts.compress = true;
+        break;
+      case "--ssr":
+        if (nextArg && !nextArg.startsWith("-")) {
+          opts.ssrEntry = nextArg;
+          i++;
+        }
+        break;
+      case "--target":
+      case "-t":
+        if (nextArg && !nextArg.startsWith("-")) {
+          opts.targets = [...(opts.targets || []), ...nextArg.split(",").filter(Boolean)];
+          i++;
+        }
+        break;
+      case "--embed-static":
+        opts.embedStatic = true;
+        break;
+      case "--openapi":
+        opts.openapi = true;
+        break;
+      case "--max-server-size":
+        if (nextArg && !nextArg.startsWith("-")) {
+          opts.budget = { ...opts.budget, server: nextArg };
+          i++;
+        }
+        break;
+      case "--max-chunk-size":
+        if (nextArg && !nextArg.startsWith("-")) {
+          opts.budget = { ...opts.budget, chunk: nextArg };
+          i++;
+        }
+        break;
+      case "--json":
+        opts.json = true;
+        break;
+      case "--sourcemap":
+        // The mode is optional: a bare --sourcemap writes server.js.map
+        if (nextArg && SOURCEMAP_MODES.includes(nextArg)) {
+          opts.sourcemap = nextArg as BuildOptions["sourcemap"];
+          i++;
+        } else {
+          opts.sourcemap = "external";
+        }
+        break;
+      case "--external":
+      case "-e":
+        if (nextArg && !nextArg.startsWith("-")) {
+          opts.external = [...(opts.external || []), ...nextArg.split(",").filter(Boolean)];
+          i++;
+        }
+        break;
+      case "--define":
+      case "-d":
+        if (nextArg && nextArg.indexOf("=") > 0) {
+          const separator = nextArg.indexOf("=");
+          opts.define = { ...opts.define, [nextArg.slice(0, separator)]: defineValue(nextArg.slice(separator + 1)) };
+          i++;
+        }
+        break;
+      case "--no-minify":
+        opts.minify = false;
+        break;
+      case "--splitting":
+        opts.splitting = true;
+        break;
       case "--skip-vite":
         opts.skipVite = true;
         break;
@@ -260,7 +979,21 @@ if (import.meta.main) {
   const command = args[0];
   const commandArgs = args.slice(1);
 
-  if (command === "build") {
+  if (command === "init") {
+    // Set up an existing Vite project
+    init({ force: commandArgs.includes("--force") || commandArgs.includes("-f") });
+  } else if (command === "docker") {
+    // Write a Dockerfile and .dockerignore for the production server
+    const opts = parseArgs(commandArgs);
+    docker({
+      config: opts.config,
+      binary: commandArgs.includes("--binary"),
+      staticDir: opts.staticDir,
+      serverDir: opts.serverDir,
+      embedStatic: opts.embedStatic,
+      force: commandArgs.includes("--force") || commandArgs.includes("-f"),
+    });
+  } else if (command === "build") {
     const opts = parseArgs(commandArgs);
     build(opts);
   } else if (command === "build-compile") {
@@ -276,29 +1009,73 @@ if (import.meta.main) {
     const opts = parseArgs(commandArgs);
     opts.skipVite = true;
     build(opts);
+  } else if (command === "openapi") {
+    // Write the OpenAPI document without building anything
+    const opts = parseArgs(commandArgs);
+    generateOpenApi(opts);
   } else {
     console.log("Usage: vite-elysia-forge <command> [options]");
     console.log("");
     console.log("Commands:");
+    console.log("  init           Add an API entry, the Vite plugin and build/start scripts to a Vite project");
     console.log("  build          Build frontend + bundle server");
     console.log("  build-compile  Build and compile a standalone server binary");
     console.log("  build-static   Build only the frontend (skip server)");
     console.log("  build-server   Build only the server (skip frontend)");
+    console.log("  openapi        Write the API's OpenAPI document to <server dir>/openapi.json");
+    console.log("  docker         Write a Dockerfile and .dockerignore for the production server");
     console.log("");
     console.log("Options:");
+    console.log("  --config, -c <path>  Project config file (default: vite-elysia-forge.config.ts)");
     console.log("  --api, -a <path>     Path to API entry file (default: src/server/api.ts)");
     console.log("  --static, -s <dir>   Output directory for static assets (default: dist)");
     console.log("  --server, -o <dir>   Output directory for server bundle (default: same as --static)");
+    console.log("  --mount, -m <prefix>=<path>");
+    console.log("                       Mount an API entry under a prefix (repeatable, replaces --api)");
+    console.log("  --ssr <path>         SSR entry to build with Vite and render pages with");
+    console.log("  --compress           Write .br/.gz siblings for compressible static files");
+    console.log("  --openapi            Also write openapi.json next to the server bundle");
+    console.log("  --target, -t <platform>");
+    console.log("                       Compile a binary for a platform, e.g. bun-linux-arm64 (repeatable)");
+    console.log("  --embed-static       Embed the static files into the compiled binary");
+    console.log("  --max-server-size <size>");
+    console.log("                       Fail the build when server.js exceeds a size, e.g. 2mb");
+    console.log("  --max-chunk-size <size>");
+    console.log("                       Fail the build when a static JS/CSS chunk exceeds a size, e.g. 500kb");
+    console.log("  --json               Print the build manifest as JSON on stdout");
+    console.log("  --sourcemap [mode]   Source maps for the server bundle: external (default), inline or none");
+    console.log("  --external, -e <pkg> Leave a package out of the server bundle (repeatable)");
+    console.log("  --define, -d <key>=<value>");
+    console.log("                       Replace an identifier in the server bundle, e.g. process.env.BUILD_ID=a1b2c3");
+    console.log("  --no-minify          Do not minify the server bundle");
+    console.log("  --splitting          Split dynamically imported server modules into chunks");
     console.log("  --skip-vite          Skip the Vite frontend build");
     console.log("  --skip-server        Skip the server build");
+    console.log("  --binary             Let docker run a compiled binary on a distroless image");
+    console.log("  --force, -f          Let init and docker overwrite existing files");
     console.log("");
     console.log("Examples:");
+    console.log("  # Set up vite-elysia-forge in the current Vite project");
+    console.log("  vite-elysia-forge init");
+    console.log("");
     console.log("  # Build everything to 'dist/' (default)");
     console.log("  vite-elysia-forge build");
     console.log("");
     console.log("  # Build with separate output directories");
     console.log("  vite-elysia-forge build --static dist --server .output");
     console.log("");
+    console.log("  # Compile a single-file server for Linux x64 and ARM64");
+    console.log("  vite-elysia-forge build-compile --target bun-linux-x64,bun-linux-arm64 --embed-static");
+    console.log("");
+    console.log("  # Bundle several API modules into one server");
+    console.log("  vite-elysia-forge build --mount /api=src/server/api.ts --mount /admin=src/server/admin.ts");
+    console.log("");
+    console.log("  # Export the OpenAPI document for contract tests");
+    console.log("  vite-elysia-forge openapi --server .output");
+    console.log("");
+    console.log("  # Containerize a single-file binary");
+    console.log("  vite-elysia-forge docker --binary --embed-static");
+    console.log("");
     console.log("  # Build only the frontend");
     console.log("  vite-elysia-forge build-static --static public");
     console.log("");
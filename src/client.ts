@@ -0,0 +1,93 @@
+import { dirname, relative, sep } from "node:path";
+
+/**
+ * ID of the virtual module exporting the Eden client for the first API mount.
+ * Additional mounts are available as `virtual:elysia-client/<prefix>`.
+ */
+export const CLIENT_MODULE_ID = "virtual:elysia-client";
+
+/**
+ * A virtual client module: its import ID and the API mount it is typed from.
+ */
+export interface ClientModule {
+  id: string;
+  /** Absolute path to the API module. */
+  file: string;
+  prefix: string;
+}
+
+/**
+ * Splits an API prefix such as "/v1/api" into the Eden path segments ["v1", "api"].
+ */
+function prefixSegments(prefix: string): string[] {
+  return prefix.split("/").filter(Boolean);
+}
+
+/**
+ * Lists the virtual client modules for a set of mounts: the bare ID for the first one,
+ * plus one ID per prefix when several APIs are mounted.
+ */
+export function getClientModules(mounts: Array<{ file: string; prefix: string }>): ClientModule[] {
+  const [first] = mounts;
+  if (!first) return [];
+
+  const modules: ClientModule[] = [{ id: CLIENT_MODULE_ID, ...first }];
+  if (mounts.length > 1) {
+    for (const mount of mounts) {
+      modules.push({ id: `${CLIENT_MODULE_ID}/${prefixSegments(mount.prefix).join("/")}`, ...mount });
+    }
+  }
+  return modules;
+}
+
+/**
+ * Generates the browser code of a virtual client module. Only `@elysiajs/eden` is
+ * imported, so no server code ends up in the client bundle.
+ */
+export function createClientModuleCode(module: ClientModule): string {
+  const scope = prefixSegments(module.prefix)
+    .map((segment) => `[${JSON.stringify(segment)}]`)
+    .join("");
+
+  return `import { treaty } from "@elysiajs/eden";
+
+const origin = typeof window !== "undefined" ? window.location.origin : "http://localhost";
+
+export const client = treaty(origin);
+export const api = client${scope};
+export default api;
+`;
+}
+
+/**
+ * Generates the declaration file that types every virtual client module from the
+ * `api` export of its server module, using type-only imports.
+ */
+export function createClientDts(modules: ClientModule[], dtsFile: string): string {
+  const declarations = modules.map((module) => {
+    let importPath = relative(dirname(dtsFile), module.file)
+      .split(sep)
+      .join("/")
+      .replace(/\.[cm]?[jt]sx?$/, "");
+    if (!importPath.startsWith(".")) importPath = "./" + importPath;
+
+    const scope = prefixSegments(module.prefix)
+      .map((segment) => `[${JSON.stringify(segment)}]`)
+      .join("");
+
+    return `declare module ${JSON.stringify(module.id)} {
+  import type { Treaty } from "@elysiajs/eden";
+
+  type App = typeof import(${JSON.stringify(importPath)}).api;
+
+  /** Eden client rooted at the current origin. */
+  export const client: Treaty.Create<App>;
+  /** Eden client scoped to ${JSON.stringify(module.prefix)}. */
+  export const api: Treaty.Create<App>${scope};
+  export default api;
+}
+`;
+  });
+
+  return `// Generated by vite-elysia-forge. Do not edit.\n\n${declarations.join("\n")}`;
+}
@@ -0,0 +1,106 @@
+import { statSync } from "node:fs";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { BuildOptions } from "./cli";
+import type { ConfigOptions } from "./index";
+import type { ProductionOptions } from "./production";
+
+/**
+ * Names of the project config file, looked up in the project root in this order.
+ */
+export const CONFIG_FILES = [
+  "vite-elysia-forge.config.ts",
+  "vite-elysia-forge.config.js",
+  "vite-elysia-forge.config.mjs",
+];
+
+/**
+ * API entry used by the plugin and the CLI when none is configured.
+ */
+export const DEFAULT_API_ENTRY = "src/server/api.ts";
+
+/**
+ * Project-wide settings shared by `elysiaPlugin`, the CLI and the generated production server.
+ */
+export interface ForgeConfig {
+  /**
+   * Path to the API entry file, relative to the project root. It should export the Elysia
+   * app instance as `api`.
+   * @default "src/server/api.ts"
+   */
+  apiEntry?: string;
+  /**
+   * Path prefix for API routes.
+   * @default "/api"
+   */
+  apiPrefix?: string;
+  /**
+   * Several API entry files, each mounted under its own prefix. When set, `apiEntry` and
+   * `apiPrefix` are ignored.
+   */
+  mounts?: Array<{ apiEntry: string; prefix: string }>;
+  /**
+   * Path to an SSR entry module exporting `render(url, context)`, relative to the project root.
+   */
+  ssrEntry?: string;
+  /**
+   * Dev server settings. Options passed to `elysiaPlugin` take precedence.
+   */
+  dev?: Pick<ConfigOptions, "ws" | "wsMode" | "backendPort" | "backendReadyTimeout" | "clientDts" | "MAX_BODY_SIZE">;
+  /**
+   * Build settings. Command-line flags take precedence.
+   */
+  build?: Pick<
+    BuildOptions,
+    | "staticDir"
+    | "serverDir"
+    | "compress"
+    | "openapi"
+    | "targets"
+    | "embedStatic"
+    | "budget"
+    | "sourcemap"
+    | "external"
+    | "define"
+    | "minify"
+    | "splitting"
+  >;
+  /**
+   * `startServer` options of the generated production server. Environment variables such as
+   * `PORT` take precedence.
+   */
+  server?: Omit<ProductionOptions, "api" | "apiPrefix" | "distDir" | "assets" | "ssr">;
+}
+
+/**
+ * Declares the project config with type checking. Use it as the default export of
+ * `vite-elysia-forge.config.ts`.
+ */
+export function defineConfig(config: ForgeConfig): ForgeConfig {
+  return config;
+}
+
+/**
+ * Finds the project config file in `root`, if there is one.
+ */
+export function findConfigFile(root: string): string | undefined {
+  return CONFIG_FILES.map((name) => resolve(root, name)).find(
+    (file) => statSync(file, { throwIfNoEntry: false })?.isFile() ?? false
+  );
+}
+
+/**
+ * Loads the project config from `configFile`, or from the config file found in `root`.
+ * Resolves `undefined` when the project has none. Config files written in TypeScript
+ * need a runtime that imports them directly, such as Bun.
+ */
+export async function loadConfig(
+  root: string,
+  configFile?: string
+): Promise<{ file: string; config: ForgeConfig } | undefined> {
+  const file = configFile ? resolve(root, configFile) : findConfigFile(root);
+  if (!file) return undefined;
+
+  const mod = await import(pathToFileURL(file).href);
+  return { file, config: (mod.default ?? {}) as ForgeConfig };
+}
@@ -0,0 +1,228 @@
+import { existsSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { loadConfig } from "./config";
+import { binaryName } from "./manifest";
+
+/**
+ * Options of the `docker` command.
+ */
+export interface DockerOptions {
+  /**
+   * The project to write `Dockerfile` and `.dockerignore` to.
+   * @default process.cwd()
+   */
+  root?: string;
+  /**
+   * Path to the project config file, relative to `root`.
+   * @default "vite-elysia-forge.config.ts" (when it exists)
+   */
+  config?: string;
+  /**
+   * Run a compiled binary on a distroless base image instead of `server.js` on `oven/bun`.
+   * @default false
+   */
+  binary?: boolean;
+  /**
+   * Output directory for the static assets, as passed to `build`.
+   * @default "dist"
+   */
+  staticDir?: string;
+  /**
+   * Output directory for the server bundle, as passed to `build`.
+   * @default same as staticDir
+   */
+  serverDir?: string;
+  /**
+   * Embed the static output into the compiled binary, which then runs without `staticDir`.
+   * @default false
+   */
+  embedStatic?: boolean;
+  /**
+   * Overwrite an existing `Dockerfile` and `.dockerignore`.
+   * @default false
+   */
+  force?: boolean;
+}
+
+/**
+ * Image the project is built in, and the bundled server runs on.
+ */
+const BUN_IMAGE = "oven/bun:1";
+
+/**
+ * Image compiled binaries run on. Bun binaries built on the Debian-based Bun image need glibc.
+ */
+const DISTROLESS_IMAGE = "gcr.io/distroless/cc-debian12:nonroot";
+
+/**
+ * Compile targets that run on the distroless image, which is glibc-based.
+ */
+const LINUX_TARGET = /^bun-linux-(x64|arm64)(-(baseline|modern))*$/;
+
+/**
+ * Lockfiles of Bun, current and legacy.
+ */
+const BUN_LOCKFILES = ["bun.lock", "bun.lockb"];
+
+/**
+ * Turns a project-relative directory into the form used in the Dockerfile, e.g. "./dist/" → "dist".
+ */
+function toDir(dir: string): string {
+  return dir.replace(/^\.\//, "").replace(/\/+$/, "") || ".";
+}
+
+/**
+ * Writes a multi-stage `Dockerfile` and a `.dockerignore` for the production server: either
+ * `server.js` on `oven/bun` or a compiled binary on a distroless base. Nothing is changed when
+ * either file exists, unless `force` is set.
+ */
+export async function docker(options: DockerOptions = {}): Promise<void> {
+  const root = options.root || process.cwd();
+  const dockerfile = join(root, "Dockerfile");
+  const dockerignore = join(root, ".dockerignore");
+
+  const existing = [dockerfile, dockerignore].filter((file) => existsSync(file));
+  if (existing.length > 0 && !options.force) {
+    console.error("❌ Refusing to overwrite existing files:");
+    for (const file of existing) console.error(`   ${file.slice(root.length + 1)}`);
+    console.error("   Run again with --force to overwrite them.");
+    process.exit(1);
+  }
+
+  // Options not given on the command line come from the project config file, as for `build`
+  let loaded: Awaited<ReturnType<typeof loadConfig>>;
+  try {
+    loaded = await loadConfig(root, options.config);
+  } catch (e) {
+    console.error(`❌ Failed to load config file "${options.config ?? "vite-elysia-forge.config.ts"}"`);
+    console.error(e);
+    process.exit(1);
+  }
+  const config = loaded?.config ?? {};
+
+  const binary = options.binary || false;
+  const staticDir = toDir(options.staticDir || config.build?.staticDir || "dist");
+  const serverDir = toDir(options.serverDir || config.build?.serverDir || staticDir);
+  const embedStatic = binary && (options.embedStatic ?? config.build?.embedStatic ?? false);
+  // With build targets, binaries are named after their target, so only the Linux one is compiled
+  const targets = binary ? config.build?.targets || [] : [];
+  const target = targets.find((name) => LINUX_TARGET.test(name));
+  if (targets.length > 0 && !target) {
+    console.error(`❌ None of the build targets (${targets.join(", ")}) runs on ${DISTROLESS_IMAGE}.`);
+    console.error("   Add bun-linux-x64 or bun-linux-arm64 to build.targets in the config file.");
+    process.exit(1);
+  }
+  const binaryPath = `/app/${serverDir}/${binaryName(target)}`;
+  const external = config.build?.external || [];
+  const port = config.server?.port ?? 3000;
+  const health = config.server?.health ? (config.server.health === true ? {} : config.server.health) : null;
+  const livenessPath = health?.livenessPath || "/healthz";
+  const readinessPath = health?.readinessPath || "/readyz";
+
+  const lockfile = BUN_LOCKFILES.find((name) => existsSync(join(root, name)));
+  const install = lockfile ? "bun install --frozen-lockfile" : "bun install";
+  const manifestFiles = ["package.json", ...(lockfile ? [lockfile] : [])].join(" ");
+
+  // Flags only for what differs from the defaults, as the config file is copied along
+  const buildFlags = [
+    ...(options.staticDir ? ["--static", staticDir] : []),
+    ...(options.serverDir ? ["--server", serverDir] : []),
+    ...(options.embedStatic && binary ? ["--embed-static"] : []),
+    ...(target ? ["--target", target] : []),
+  ];
+  const buildCommand = ["bun x vite-elysia-forge", binary ? "build-compile" : "build", ...buildFlags].join(" ");
+
+  // The server resolves STATIC_DIR against its working directory, so it is set to an absolute path
+  const copies: string[] = [];
+  if (binary) {
+    if (embedStatic || serverDir !== staticDir) {
+      copies.push(`COPY --from=build ${binaryPath} ${binaryPath}`);
+    }
+    if (!embedStatic) copies.push(`COPY --from=build /app/${staticDir} /app/${staticDir}`);
+  } else {
+    copies.push(`COPY --from=build /app/${staticDir} /app/${staticDir}`);
+    if (serverDir !== staticDir) copies.push(`COPY --from=build /app/${serverDir} /app/${serverDir}`);
+  }
+  // Packages left out of the bundle are imported from node_modules at runtime
+  if (external.length > 0) copies.push("COPY --from=deps /app/node_modules /app/node_modules");
+
+  const env = [
+    "NODE_ENV=production",
+    `PORT=${port}`,
+    ...(embedStatic ? [] : [`STATIC_DIR=/app/${staticDir}`]),
+  ].join(" \\\n    ");
+
+  let healthcheck = "";
+  if (health && binary) {
+    healthcheck = `
+# Distroless images have no shell or HTTP client for a HEALTHCHECK, so point the
+# orchestrator's probes at ${livenessPath} (liveness) and ${readinessPath} (readiness) on port ${port}
+`;
+  } else if (health) {
+    const probe =
+      `fetch("http://localhost:" + (process.env.PORT || ${port}) + "${livenessPath}")` +
+      ".then((r) => process.exit(r.ok ? 0 : 1), () => process.exit(1))";
+    healthcheck = `
+HEALTHCHECK --interval=30s --timeout=3s --start-period=10s --retries=3 \\
+  CMD ${JSON.stringify(["bun", "-e", probe])}
+`;
+  }
+
+  const depsStage =
+    external.length > 0
+      ? `
+# Runtime dependencies of the packages left out of the server bundle
+FROM ${BUN_IMAGE} AS deps
+WORKDIR /app
+COPY ${manifestFiles} ./
+RUN ${install} --production
+`
+      : "";
+
+  const content = `# syntax=docker/dockerfile:1
+# Generated by vite-elysia-forge docker
+
+FROM ${BUN_IMAGE} AS build
+WORKDIR /app
+COPY ${manifestFiles} ./
+RUN ${install}
+COPY . .
+RUN ${buildCommand}
+${depsStage}
+FROM ${binary ? DISTROLESS_IMAGE : `${BUN_IMAGE}-slim`} AS runtime
+WORKDIR /app
+ENV ${env}
+${copies.join("\n")}
+${binary ? "" : "USER bun\n"}EXPOSE ${port}
+${healthcheck}
+CMD ${JSON.stringify(binary ? [binaryPath] : ["bun", `${serverDir}/server.js`])}
+`;
+
+  const ignored = [
+    "node_modules",
+    staticDir,
+    ...(serverDir !== staticDir ? [serverDir] : []),
+    ...(serverDir !== ".output" && staticDir !== ".output" ? [".output"] : []),
+    ".git",
+    ".env",
+    ".env.*",
+    "*.log",
+    "Dockerfile",
+    ".dockerignore",
+  ];
+
+  writeFileSync(dockerfile, content);
+  writeFileSync(dockerignore, ignored.join("\n") + "\n");
+
+  const mode = binary
+    ? `compiled binary on ${DISTROLESS_IMAGE}${embedStatic ? " with embedded static files" : ""}`
+    : `${serverDir}/server.js on ${BUN_IMAGE}-slim`;
+  console.log(`✅ Created Dockerfile (${mode})`);
+  console.log("✅ Created .dockerignore");
+  if (health && binary) console.log(`🩺 Point the orchestrator's probes at ${livenessPath} and ${readinessPath}`);
+  else if (health) console.log(`🩺 Added a HEALTHCHECK on ${livenessPath}`);
+
+  console.log("\n💡 Next steps:");
+  console.log("   docker build -t my-app .");
+  console.log(`   docker run -p ${port}:${port} my-app`);
+}
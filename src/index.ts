@@ -1,7 +1,34 @@
-import { resolve, relative } from "node:path";
+import { resolve, relative, dirname } from "node:path";
 import { spawn, type ChildProcess } from "node:child_process";
-import { writeFileSync, unlinkSync, existsSync, mkdirSync } from "node:fs";
-import type { Plugin } from "vite";
+import { writeFileSync, unlinkSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { connect, createServer as createNetServer } from "node:net";
+import type { Duplex } from "node:stream";
+import type { ServerWebSocket } from "bun";
+import type { Plugin, ViteDevServer } from "vite";
+import { createClientDts, createClientModuleCode, getClientModules, type ClientModule } from "./client";
+import { DEFAULT_API_ENTRY, findConfigFile, type ForgeConfig } from "./config";
+import { createApiFetch, renderPage, type SsrModule } from "./ssr";
+
+export type { ForgeConfig } from "./config";
+export type { SsrContext, SsrModule, SsrResult } from "./ssr";
+
+/**
+ * An Elysia API module mounted under a path prefix.
+ */
+export interface ApiMount {
+  /**
+   * The URL path to the server API module.
+   * This file should export the Elysia app instance as `api`.
+   */
+  serverFile: string;
+
+  /**
+   * Path prefix routed to this module. Requests are forwarded unchanged,
+   * so the Elysia app should declare the same prefix.
+   */
+  prefix: string;
+}
 
 /**
  * Configuration options for the Vite Elysia Forge plugin.
@@ -10,43 +37,503 @@ export interface ConfigOptions {
   /**
    * The URL path to the server API module.
    * This file should export the Elysia app instance as `api`.
-   * @default "/server/api.ts"
+   * @default "/src/server/api.ts"
    */
   serverFile?: string;
 
   /**
-   * Enable WebSocket-capable mode by running the API as a real Bun/Elysia server
-   * on a separate port, and letting Vite proxy to it (including WS upgrades).
+   * Enable WebSocket support for Elysia `.ws()` routes.
    *
-   * When enabled, the plugin will:
-   * - start (and hot-restart) `api.listen(backendPort)`
+   * When Vite runs on Bun, upgrades are handled in-process (see `wsMode`).
+   * Otherwise the plugin will:
+   * - start (and hot-restart) `api.listen(backendPort)` in a separate Bun process
    * - configure Vite `server.proxy[apiPrefix]` with `ws: true`
    *
    * @default false
    */
   ws?: boolean;
 
+  /**
+   * How `ws` mode serves WebSocket routes.
+   * - `"in-process"`: handle upgrades on Vite's own HTTP server and dispatch them to the
+   *   currently loaded `api`, so `.ws()` routes hot-reload like HTTP routes (requires Vite on Bun)
+   * - `"process"`: run the API as a separate Bun process behind a Vite proxy
+   * - `"auto"`: `"in-process"` when Vite runs on Bun, otherwise `"process"`
+   *
+   * @default "auto"
+   */
+  wsMode?: "auto" | "in-process" | "process";
+
   /**
    * Path prefix for API routes.
-   * Used for Vite proxy configuration in `ws` mode.
+   * Requests under this prefix are forwarded to the API module (or proxied in `ws` mode).
    * @default "/api"
    */
   apiPrefix?: string;
 
   /**
-   * The port to run the backend API server on in `ws` mode.
+   * Several API modules, each hot-reloaded and routed by its own prefix.
+   * When set, `serverFile` and `apiPrefix` are ignored.
+   *
+   * @example
+   * mounts: [
+   *   { serverFile: "/server/api.ts", prefix: "/api" },
+   *   { serverFile: "/server/admin.ts", prefix: "/admin" },
+   * ]
+   */
+  mounts?: ApiMount[];
+
+  /**
+   * The port to run the backend API server on in `ws` mode when a separate process is used.
+   * Use `"auto"` to pick a free port. An explicit port that is already in use fails startup.
    * @default 3001
    */
-  backendPort?: number;
+  backendPort?: number | "auto";
+
+  /**
+   * How long to wait, in milliseconds, for the separate API process to accept connections
+   * on `backendPort` after a (re)start. API requests are held until then and answered with
+   * 503 if the backend never becomes ready.
+   * @default 10000
+   */
+  backendReadyTimeout?: number;
+
+  /**
+   * Write a declaration file that types the `virtual:elysia-client` module: `true` for
+   * `elysia-client.d.ts`, or a path relative to the project root.
+   * @default false
+   */
+  clientDts?: string | boolean;
+
+  /**
+   * The URL path to an SSR entry module exporting `render(url, context)`.
+   * When set, page requests are rendered with it into the `<!--app-html-->` (and
+   * `<!--app-head-->`) placeholders of `index.html`, after Vite's HTML transforms.
+   * `context.api` and `context.fetch` call the Elysia API in-process.
+   */
+  ssrEntry?: string;
 
   /**
    * Maximum allowed size for request bodies in bytes.
    * Requests exceeding this size will receive a 413 Payload Too Large response.
+   * A larger `Content-Length` is rejected up-front; otherwise the limit is enforced
+   * while the body is streamed to Elysia.
    * @default 1048576 (1MB)
    */
   MAX_BODY_SIZE?: number;
 }
 
+type ApiHandler = {
+  handle: (request: Request) => Promise<Response>;
+  server?: unknown;
+  onError?: unknown;
+};
+
+/**
+ * The per-route handlers Elysia attaches to `ws.data` when it upgrades a request.
+ */
+type ElysiaWsData = {
+  open?: (ws: ServerWebSocket<ElysiaWsData>) => void;
+  message?: (ws: ServerWebSocket<ElysiaWsData>, message: string | Buffer) => void;
+  drain?: (ws: ServerWebSocket<ElysiaWsData>) => void;
+  close?: (ws: ServerWebSocket<ElysiaWsData>, code: number, reason: string) => void;
+  ping?: (ws: ServerWebSocket<ElysiaWsData>, data: Buffer) => void;
+  pong?: (ws: ServerWebSocket<ElysiaWsData>, data: Buffer) => void;
+};
+
+/**
+ * Resolves a module path such as "/server/api.ts" against the project root.
+ */
+function resolveModuleFile(root: string, modulePath: string): string {
+  return resolve(root, modulePath.startsWith("/") ? modulePath.slice(1) : modulePath);
+}
+
+/**
+ * Checks whether a request URL falls under `prefix`, on a path segment boundary.
+ */
+function matchesPrefix(url: string, prefix: string): boolean {
+  const pathname = url.split("?")[0] ?? "";
+  const base = prefix.endsWith("/") ? prefix.slice(0, -1) : prefix;
+  return pathname === base || pathname.startsWith(base + "/");
+}
+
+/**
+ * How many request body bytes are read ahead before the request is handed to Elysia.
+ * Bodies smaller than this are fully received (and size-checked) before dispatch.
+ */
+const READ_AHEAD_BYTES = 64 * 1024;
+
+/**
+ * Exposes a Node `IncomingMessage` as a Fetch `ReadableStream` body.
+ *
+ * The stream errors as soon as more than `maxBytes` have been received and calls
+ * `onTooLarge` so the caller can answer with a 413. The returned `ready` promise
+ * settles once the read-ahead buffer is full or the body has ended.
+ */
+function createBodyStream(req: IncomingMessage, maxBytes: number, onTooLarge: () => void) {
+  const iterator: AsyncIterator<Uint8Array> = req[Symbol.asyncIterator]();
+  let received = 0;
+  let markReady = () => {};
+  const ready = new Promise<void>((resolve) => {
+    markReady = resolve;
+  });
+
+  const stream = new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        try {
+          const { done, value } = await iterator.next();
+          if (done) {
+            controller.close();
+            markReady();
+            return;
+          }
+
+          received += value.byteLength;
+          if (received > maxBytes) {
+            onTooLarge();
+            controller.error(new Error("Payload Too Large"));
+            markReady();
+            await iterator.return?.();
+            return;
+          }
+
+          controller.enqueue(value);
+          if ((controller.desiredSize ?? 0) <= 0) markReady();
+        } catch (error) {
+          controller.error(error);
+          markReady();
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
+    },
+    new ByteLengthQueuingStrategy({ highWaterMark: READ_AHEAD_BYTES })
+  );
+
+  return { stream, ready };
+}
+
+/**
+ * Writes a Fetch `Response` to a Node `ServerResponse`, streaming the body
+ * chunk-by-chunk and waiting for `drain` when the socket applies backpressure.
+ */
+async function sendResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value: string, key: string) => {
+    res.setHeader(key, value);
+  });
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  // Stop pulling from the stream if the client goes away (e.g. a closed SSE tab)
+  const onClose = () => {
+    reader.cancel().catch(() => {});
+  };
+  res.once("close", onClose);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      if (!res.write(value)) {
+        await new Promise<void>((resolve) => {
+          const resume = () => {
+            res.off("drain", resume);
+            res.off("close", resume);
+            resolve();
+          };
+          res.once("drain", resume);
+          res.once("close", resume);
+        });
+      }
+    }
+    res.end();
+  } finally {
+    res.off("close", onClose);
+  }
+}
+
+/**
+ * Rewrites the stack of an error raised by SSR-loaded code to point at the original
+ * TypeScript source and shows it in the browser's Vite error overlay.
+ */
+function reportError(server: ViteDevServer, error: unknown): Error {
+  const err = error instanceof Error ? error : new Error(String(error));
+  server.ssrFixStacktrace(err);
+  server.ws.send({
+    type: "error",
+    err: {
+      message: err.message,
+      stack: err.stack ?? "",
+      plugin: "vite-elysia-forge",
+    },
+  });
+  return err;
+}
+
+/**
+ * Whether `response` is the plain-text answer Elysia gives `error` when no error hook of the app
+ * returned one: no content type and the error message (or its code) as the body.
+ */
+async function isDefaultErrorResponse(response: Response, error: unknown): Promise<boolean> {
+  if (response.headers.has("content-type")) return false;
+  const body = await response.clone().text();
+  return body === (error instanceof Error ? error.message : String(error)) || body === "INTERNAL_SERVER_ERROR";
+}
+
+/**
+ * Answers a failed API request with a development error page that includes the stack,
+ * as HTML for browser navigations and JSON for everything else.
+ */
+function sendDevError(req: IncomingMessage, res: ServerResponse, err: Error): void {
+  res.statusCode = 500;
+
+  if (req.headers.accept?.includes("text/html")) {
+    const escape = (text: string) =>
+      text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.end(`<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>500 Internal Server Error</title></head>
+<body style="font-family: monospace; padding: 2rem;">
+<h1>500 Internal Server Error</h1>
+<p>${escape(err.message)}</p>
+<pre style="white-space: pre-wrap;">${escape(err.stack ?? "")}</pre>
+</body>
+</html>`);
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ error: "Internal Server Error", message: err.message, stack: err.stack }));
+}
+
+/**
+ * Polls `port` until it accepts TCP connections. Resolves `false` once `timeout` ms have
+ * passed or `isAlive` reports that the process expected to listen has gone away.
+ */
+async function waitForPort(port: number, timeout: number, isAlive: () => boolean): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    if (!isAlive()) return false;
+
+    const open = await new Promise<boolean>((resolve) => {
+      const socket = connect(port, "127.0.0.1");
+      socket.once("connect", () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once("error", () => {
+        socket.destroy();
+        resolve(false);
+      });
+    });
+    if (open) return true;
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  return false;
+}
+
+/**
+ * Binds a throwaway TCP server to `port` (0 for any) and returns the port it got,
+ * or `null` if the port is already in use.
+ */
+function tryBindPort(port: number): Promise<number | null> {
+  return new Promise((resolve) => {
+    const probe = createNetServer();
+    probe.unref();
+    probe.once("error", () => resolve(null));
+    probe.listen(port, () => {
+      const address = probe.address();
+      const bound = typeof address === "object" && address ? address.port : null;
+      probe.close(() => resolve(bound));
+    });
+  });
+}
+
+/**
+ * Sends SIGTERM to a child process and resolves once it has exited, escalating to
+ * SIGKILL if it is still running after `timeout` ms.
+ */
+function stopProcess(child: ChildProcess, timeout = 5000): Promise<void> {
+  return new Promise((resolve) => {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      resolve();
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      resolve();
+    }, timeout);
+    child.once("exit", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    child.kill("SIGTERM");
+  });
+}
+
+/**
+ * Serves Elysia `.ws()` routes from inside the Vite process.
+ *
+ * Upgrades received by Vite's HTTP server are tunnelled to an internal `Bun.serve`
+ * instance on a loopback port, which dispatches them to whichever `api` `resolveApi`
+ * returns at that moment.
+ */
+function createWsBridge(resolveApi: (url: string) => ApiHandler | undefined) {
+  const bunServer = Bun.serve<ElysiaWsData>({
+    hostname: "127.0.0.1",
+    port: 0,
+    fetch(request, srv) {
+      const api = resolveApi(new URL(request.url).pathname);
+      if (!api) return new Response("Not Found", { status: 404 });
+
+      // Elysia upgrades through `app.server`, which is normally only set by `.listen()`
+      api.server = srv;
+      return api.handle(request);
+    },
+    websocket: {
+      open(ws) {
+        ws.data.open?.(ws);
+      },
+      message(ws, message) {
+        ws.data.message?.(ws, message);
+      },
+      drain(ws) {
+        ws.data.drain?.(ws);
+      },
+      close(ws, code, reason) {
+        ws.data.close?.(ws, code, reason);
+      },
+      ping(ws, data) {
+        ws.data.ping?.(ws, data);
+      },
+      pong(ws, data) {
+        ws.data.pong?.(ws, data);
+      },
+    },
+  });
+
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const upstream = connect(bunServer.port!, "127.0.0.1", () => {
+      // Replay the original handshake, then splice the two sockets together
+      const lines = [`${req.method} ${req.url} HTTP/1.1`];
+      for (let i = 0; i < req.rawHeaders.length; i += 2) {
+        lines.push(`${req.rawHeaders[i]}: ${req.rawHeaders[i + 1]}`);
+      }
+      upstream.write(lines.join("\r\n") + "\r\n\r\n");
+      if (head.length > 0) upstream.write(head);
+
+      socket.pipe(upstream).pipe(socket);
+    });
+
+    upstream.on("error", () => socket.destroy());
+    socket.on("error", () => upstream.destroy());
+  };
+
+  return {
+    handleUpgrade,
+    close: () => bunServer.stop(true),
+  };
+}
+
+/**
+ * Plugin options with defaults applied, and the API mounts and WebSocket mode derived from them.
+ */
+type ResolvedOptions = Required<
+  Omit<ConfigOptions, "serverFile" | "apiPrefix" | "mounts" | "ssrEntry" | "clientDts">
+> & {
+  apiMounts: ApiMount[];
+  ssrEntry: string | undefined;
+  clientDts: string | false;
+  inProcessWs: boolean;
+  backendProcessMode: boolean;
+};
+
+/**
+ * Applies the defaults to the plugin options.
+ */
+function resolveOptions({
+  serverFile = "/" + DEFAULT_API_ENTRY,
+  ws = false,
+  wsMode = "auto",
+  apiPrefix = "/api",
+  mounts,
+  backendPort = 3001,
+  backendReadyTimeout = 10_000,
+  clientDts = false,
+  ssrEntry,
+  MAX_BODY_SIZE = 1024 * 1024,
+}: ConfigOptions): ResolvedOptions {
+  const isBun = typeof Bun !== "undefined";
+  if (ws && wsMode === "in-process" && !isBun) {
+    console.warn("In-process WebSocket mode requires Vite to run on Bun; falling back to a separate API process.");
+  }
+  const inProcessWs = ws && wsMode !== "process" && isBun;
+
+  return {
+    ws,
+    wsMode,
+    apiMounts: mounts && mounts.length > 0 ? mounts : [{ serverFile, prefix: apiPrefix }],
+    backendPort,
+    backendReadyTimeout,
+    clientDts: clientDts === true ? "elysia-client.d.ts" : clientDts,
+    ssrEntry,
+    MAX_BODY_SIZE,
+    inProcessWs,
+    backendProcessMode: ws && !inProcessWs,
+  };
+}
+
+/**
+ * Turns a project-relative path from the config file, e.g. "src/server/api.ts", into the
+ * module path Vite loads, e.g. "/src/server/api.ts".
+ */
+function toModulePath(path: string): string {
+  return "/" + path.replace(/^\.?\//, "");
+}
+
+/**
+ * Maps the project config file to plugin options.
+ */
+function optionsFromConfig(config: ForgeConfig): ConfigOptions {
+  return {
+    ...config.dev,
+    serverFile: config.apiEntry && toModulePath(config.apiEntry),
+    apiPrefix: config.apiPrefix,
+    mounts: config.mounts?.map((mount) => ({ serverFile: toModulePath(mount.apiEntry), prefix: mount.prefix })),
+    ssrEntry: config.ssrEntry && toModulePath(config.ssrEntry),
+  };
+}
+
+/**
+ * Applies the options passed to the plugin over those from the config file. A single API
+ * module passed to the plugin replaces the mounts of the config file.
+ */
+function mergeOptions(fromConfig: ConfigOptions, options: ConfigOptions): ConfigOptions {
+  const overrides = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  const singleApi = (options.serverFile || options.apiPrefix) && !options.mounts;
+  return { ...fromConfig, ...(singleApi ? { mounts: undefined } : {}), ...overrides };
+}
+
+/**
+ * Backend processes of the dev servers in this process, by project root. Vite builds the new
+ * server, with a new plugin instance, before closing the one it restarts, so the port and the
+ * process running on it have to outlive a plugin instance.
+ */
+const devBackends = new Map<string, { requested: number | "auto"; port: number; process: ChildProcess | null }>();
+
 /**
  * A Vite plugin that integrates ElysiaJS into the Vite development server.
  *
@@ -56,123 +543,283 @@ export interface ConfigOptions {
  * @param options - Configuration options for the plugin.
  * @returns A Vite plugin instance.
  */
-function elysiaPlugin({
-  serverFile = "/server/api.ts",
-  ws = false,
-  apiPrefix = "/api",
-  backendPort = 3001,
-  MAX_BODY_SIZE = 1024 * 1024,
-}: ConfigOptions = {}): Plugin {
+function elysiaPlugin(options: ConfigOptions = {}): Plugin {
+  let resolved = resolveOptions(options);
+  let configFile: string | undefined;
+
+  let backendPortPromise: Promise<number> | undefined;
+  // Resolved once per project, so restarts keep the proxy target stable
+  const resolveBackendPort = (root: string) =>
+    (backendPortPromise ??= (async () => {
+      const { backendPort } = resolved;
+      // On restart, the port is still held by the backend of the server being replaced
+      const running = devBackends.get(root);
+      if (running && running.requested === backendPort) return running.port;
+
+      const port = await tryBindPort(backendPort === "auto" ? 0 : backendPort);
+      if (port === null) {
+        throw new Error(
+          `Port ${backendPort} for the API server is already in use. ` +
+            `Stop the process using it, or set \`backendPort: "auto"\` to pick a free port.`
+        );
+      }
+      devBackends.set(root, { requested: backendPort, port, process: running?.process ?? null });
+      console.log(`API server will listen on port ${port}`);
+      return port;
+    })());
+
+  let clientModules: ClientModule[] = [];
+
   return {
     name: "vite-elysia-forge",
-    config: ws
-      ? () => ({
-          server: {
-            proxy: {
-              [apiPrefix]: {
+    configResolved(config) {
+      const { apiMounts, clientDts } = resolved;
+      clientModules = getClientModules(
+        apiMounts.map((mount) => ({ file: resolveModuleFile(config.root, mount.serverFile), prefix: mount.prefix }))
+      );
+      if (clientDts === false) return;
+
+      // Only touch the file when it changes, to avoid retriggering watchers and type-checkers
+      const dtsFile = resolve(config.root, clientDts);
+      const content = createClientDts(clientModules, dtsFile);
+      try {
+        if (existsSync(dtsFile) && readFileSync(dtsFile, "utf8") === content) return;
+        mkdirSync(dirname(dtsFile), { recursive: true });
+        writeFileSync(dtsFile, content);
+      } catch (error) {
+        console.warn(`Failed to write Elysia client types to ${clientDts}: ${error}`);
+      }
+    },
+    resolveId(id) {
+      if (clientModules.some((module) => module.id === id)) return "\0" + id;
+    },
+    load(id) {
+      const module = id.startsWith("\0") && clientModules.find((module) => module.id === id.slice(1));
+      if (module) return createClientModuleCode(module);
+    },
+    async config(config, env) {
+      // Settings from the project config file, overridden by the options passed to the plugin
+      const root = resolve(config.root ?? process.cwd());
+      configFile = findConfigFile(root);
+      if (configFile) {
+        const { loadConfigFromFile } = await import("vite");
+        const loaded = await loadConfigFromFile(env, configFile, root);
+        resolved = resolveOptions(mergeOptions(optionsFromConfig((loaded?.config ?? {}) as ForgeConfig), options));
+      }
+
+      const { apiMounts, ssrEntry, backendProcessMode } = resolved;
+
+      // Vite's own HTML middlewares would otherwise answer page requests before the SSR entry
+      const appType = ssrEntry ? ("custom" as const) : undefined;
+
+      // Only the dev server talks to the backend process
+      if (!backendProcessMode || env.command !== "serve") return appType && { appType };
+
+      const backendPort = await resolveBackendPort(root);
+      return {
+        appType,
+        server: {
+          proxy: Object.fromEntries(
+            apiMounts.map((mount) => [
+              mount.prefix,
+              {
                 target: `http://localhost:${backendPort}`,
                 changeOrigin: true,
                 ws: true,
               },
-            },
-          },
-        })
-      : undefined,
+            ])
+          ),
+        },
+      };
+    },
     async configureServer(server) {
-      const apiModulePath = serverFile;
-      const apiFile = resolve(server.config.root, apiModulePath.slice(1));
-
-      const loadApi = async () => {
-        const mod = await server.ssrLoadModule(apiModulePath);
-        return mod.api as { handle: (request: Request) => Promise<Response> };
+      const { apiMounts, backendReadyTimeout, ssrEntry, MAX_BODY_SIZE, inProcessWs, backendProcessMode } = resolved;
+      // Elysia answers handler exceptions with its own 500, so a wrapper app records them per request
+      // and the API middleware rethrows them for the overlay and the development error page
+      const handlerErrors = new WeakMap<Request, unknown>();
+      const loadApi = async (modulePath: string) => {
+        const mod = await server.ssrLoadModule(modulePath);
+        let api = mod.api as ApiHandler;
+        if (typeof api?.onError === "function") {
+          const { Elysia } = await import("elysia");
+          api = new Elysia()
+            .onError({ as: "global" }, ({ code, error, request }) => {
+              if (code === "UNKNOWN" || code === "INTERNAL_SERVER_ERROR") handlerErrors.set(request, error);
+            })
+            .use(api as unknown as InstanceType<typeof Elysia>);
+        }
+        return api;
       };
 
-      let api = await loadApi();
+      const loaded: Array<ApiMount & { file: string; api: ApiHandler }> = [];
+      for (const mount of apiMounts) {
+        loaded.push({
+          ...mount,
+          file: resolveModuleFile(server.config.root, mount.serverFile),
+          api: await loadApi(mount.serverFile),
+        });
+      }
+
+      // Longest prefix first so "/api/admin" wins over "/api"
+      const routes = [...loaded].sort((a, b) => b.prefix.length - a.prefix.length);
 
-      let backendProcess: ChildProcess | null = null;
+      const root = server.config.root;
+      const backendPort = backendProcessMode ? await resolveBackendPort(root) : 0;
+      const backend = devBackends.get(root);
+
+      // The process this server started last; the one on the port may belong to its replacement
+      let ownProcess: ChildProcess | null = null;
       let restarting = false;
+      let restartPending = false;
+      // Settles with whether the most recently started backend accepts connections
+      let backendReady: Promise<boolean> = Promise.resolve(false);
 
       const startBackend = async () => {
-        if (!ws) return;
-        if (restarting) return;
+        if (!backendProcessMode || !backend) return;
+        if (restarting) {
+          restartPending = true;
+          return;
+        }
         restarting = true;
 
+        let markReady: (ready: boolean) => void = () => {};
+        backendReady = new Promise((resolve) => {
+          markReady = resolve;
+        });
+
         try {
-          // Kill previous process if running
-          if (backendProcess) {
-            backendProcess.kill("SIGTERM");
-            backendProcess = null;
+          // Stop the previous process, also one of a restarted server, and wait for it to release the port
+          if (backend.process) {
+            const previous = backend.process;
+            backend.process = null;
+            await stopProcess(previous);
           }
 
           // Create a temporary script file that imports the user's API and calls .listen()
           // We use a relative path from the temp script to the API file to ensure Bun resolves it correctly
           const tempDir = resolve(server.config.root, "node_modules", ".vite-elysia-forge");
           const tempScript = resolve(tempDir, "dev-server.ts");
-          const absoluteApiFile = resolve(
-            server.config.root,
-            apiModulePath.startsWith("/") ? apiModulePath.slice(1) : apiModulePath
-          );
 
-          // Calculate relative path from tempScript to absoluteApiFile
+          // Calculate relative path from tempScript to each API file
           // We need to handle Windows paths correctly if necessary, but for now standard relative is fine
           // We also need to ensure it starts with ./ or ../
-          let relativeApiImport = relative(tempDir, absoluteApiFile);
-          if (!relativeApiImport.startsWith(".")) {
-            relativeApiImport = "./" + relativeApiImport;
-          }
+          const relativeApiImports = loaded.map((mount) => {
+            let relativeApiImport = relative(tempDir, mount.file);
+            if (!relativeApiImport.startsWith(".")) {
+              relativeApiImport = "./" + relativeApiImport;
+            }
+            return relativeApiImport;
+          });
 
           if (!existsSync(tempDir)) {
             mkdirSync(tempDir, { recursive: true });
           }
 
-          const scriptContent = `import { api } from ${JSON.stringify(relativeApiImport)};
+          // A single module listens directly; several are composed into one Elysia app
+          const scriptContent =
+            relativeApiImports.length === 1
+              ? `import { api } from ${JSON.stringify(relativeApiImports[0])};
 api.listen(${backendPort});
 console.log("WebSocket server running at ws://localhost:${backendPort}");
+`
+              : `import { Elysia } from "elysia";
+${relativeApiImports.map((path, i) => `import { api as api${i} } from ${JSON.stringify(path)};`).join("\n")}
+new Elysia()${relativeApiImports.map((_, i) => `.use(api${i})`).join("")}.listen(${backendPort});
+console.log("WebSocket server running at ws://localhost:${backendPort}");
 `;
           writeFileSync(tempScript, scriptContent);
 
           // Spawn bun to run the temp script file
-          backendProcess = spawn("bun", ["run", tempScript], {
+          const child = spawn("bun", ["run", tempScript], {
             stdio: ["ignore", "inherit", "inherit"],
             cwd: server.config.root,
             env: { ...process.env },
           });
+          backend.process = child;
+          ownProcess = child;
 
-          backendProcess.on("error", (err) => {
+          child.on("error", (err) => {
             console.error(`Failed to start API server: ${err.message}`);
           });
 
-          backendProcess.on("exit", (code) => {
+          child.on("exit", (code) => {
             if (code !== null && code !== 0) {
               console.error(`API server process exited with code ${code}`);
             }
-            backendProcess = null;
+            if (backend.process === child) backend.process = null;
           });
+
+          const isAlive = () => child.exitCode === null && child.signalCode === null;
+          waitForPort(backendPort, backendReadyTimeout, isAlive).then((ready) => {
+            if (!ready && backend.process === child) {
+              console.error(
+                `API server did not accept connections on port ${backendPort} within ${backendReadyTimeout}ms. ` +
+                  `Requests to the API will fail with 503 until it restarts.`
+              );
+            }
+            markReady(ready);
+          });
+        } catch (error) {
+          markReady(false);
+          throw error;
         } finally {
           restarting = false;
         }
+
+        if (restartPending) {
+          restartPending = false;
+          await startBackend();
+        }
+      };
+
+      /**
+       * Resolves once the current backend is ready, following restarts that begin while waiting.
+       */
+      const waitForBackend = async (): Promise<boolean> => {
+        while (true) {
+          const current = backendReady;
+          const ready = await current;
+          if (ready || current === backendReady) return ready;
+        }
       };
 
-      if (ws) {
+      if (inProcessWs) {
+        if (server.httpServer) {
+          const bridge = createWsBridge((url) => routes.find((route) => matchesPrefix(url, route.prefix))?.api);
+
+          // Upgrades outside the API prefixes (e.g. Vite's HMR socket) are left to other listeners
+          server.httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+            const url = req.url;
+            if (!url || !routes.some((route) => matchesPrefix(url, route.prefix))) return;
+            bridge.handleUpgrade(req, socket, head);
+          });
+          server.httpServer.once("close", () => bridge.close());
+        } else {
+          console.warn("In-process WebSocket mode needs Vite's HTTP server; WebSocket routes are unavailable.");
+        }
+      }
+
+      if (backendProcessMode) {
         await startBackend();
 
         server.httpServer?.once("close", () => {
-          if (backendProcess) {
-            backendProcess.kill("SIGTERM");
-            backendProcess = null;
+          // After a restart, the new server has taken over the port with its own process
+          if (!backend || backend.process !== ownProcess) return;
+          devBackends.delete(root);
+          if (backend.process) {
+            backend.process.kill("SIGTERM");
+            backend.process = null;
           }
         });
       }
 
-      server.watcher.add(apiFile);
-      server.watcher.on("change", async (file) => {
-        const entryMod = await server.moduleGraph.getModuleByUrl(apiModulePath);
-        if (!entryMod) return;
-
+      /**
+       * Walks the importer graph upwards from `file` to see if it reaches `entryId`.
+       */
+      const isDependencyOf = (file: string, entryId: string) => {
         const changedMods = server.moduleGraph.getModulesByFile(file);
-        if (!changedMods || changedMods.size === 0) return;
+        if (!changedMods || changedMods.size === 0) return false;
 
-        let isDependency = false;
         const seen = new Set<string>();
         const queue = [...changedMods];
 
@@ -181,38 +828,132 @@ console.log("WebSocket server running at ws://localhost:${backendPort}");
           if (!node || !node.id || seen.has(node.id)) continue;
           seen.add(node.id);
 
-          if (node.id === entryMod.id) {
-            isDependency = true;
-            break;
-          }
+          if (node.id === entryId) return true;
 
           for (const importer of node.importers) {
             queue.push(importer);
           }
         }
 
-        if (!isDependency) return;
+        return false;
+      };
 
-        try {
-          server.moduleGraph.invalidateModule(entryMod);
-          api = await loadApi();
-          console.log("Reloaded Elysia API module");
+      for (const mount of loaded) {
+        server.watcher.add(mount.file);
+      }
+      if (configFile) server.watcher.add(configFile);
+      server.watcher.on("change", async (file) => {
+        // Settings such as prefixes and ports are read once, so apply config changes with a restart
+        if (file === configFile) {
+          await server.restart();
+          return;
+        }
 
-          if (ws) {
-            await startBackend();
+        let reloaded = false;
+
+        for (const mount of loaded) {
+          const entryMod = await server.moduleGraph.getModuleByUrl(mount.serverFile);
+          if (!entryMod || !entryMod.id) continue;
+          if (!isDependencyOf(file, entryMod.id)) continue;
+
+          try {
+            server.moduleGraph.invalidateModule(entryMod);
+            mount.api = await loadApi(mount.serverFile);
+            console.log(
+              loaded.length === 1 ? "Reloaded Elysia API module" : `Reloaded Elysia API module for ${mount.prefix}`
+            );
+            reloaded = true;
+          } catch (error) {
+            const err = reportError(server, error);
+            console.error(`Failed to reload Elysia API: ${err.stack ?? err}`);
           }
-        } catch (error) {
-          console.error(`Failed to reload Elysia API: ${error}`);
+        }
+
+        if (reloaded && backendProcessMode) {
+          await startBackend();
         }
       });
 
-      if (ws) return;
+      /**
+       * Renders page requests with the SSR entry. Returned from `configureServer`, so it is
+       * installed after Vite's internal middlewares and modules and static files are served first.
+       */
+      const installSsrMiddleware = () => {
+        if (!ssrEntry) return;
+        const templateFile = resolve(server.config.root, "index.html");
+
+        server.middlewares.use(async (req, res, next) => {
+          const url = req.originalUrl ?? req.url;
+          if (!url || (req.method !== "GET" && req.method !== "HEAD")) return next();
+          if (!req.headers.accept?.includes("text/html")) return next();
+          if (routes.some((route) => matchesPrefix(url, route.prefix))) return next();
+
+          try {
+            const template = await server.transformIndexHtml(url, readFileSync(templateFile, "utf8"), req.originalUrl);
+            const ssr = (await server.ssrLoadModule(ssrEntry)) as SsrModule;
+
+            const request = new Request(`http://${req.headers.host || "localhost:3000"}${url}`, {
+              method: req.method,
+              headers: req.headers as Record<string, string>,
+            });
+            const resolveApi = (pathname: string) => routes.find((route) => matchesPrefix(pathname, route.prefix))?.api;
+            const response = await renderPage(ssr, template, {
+              request,
+              api: loaded[0]?.api,
+              fetch: createApiFetch(request, resolveApi),
+            });
+
+            await sendResponse(res, response);
+          } catch (error) {
+            const err = reportError(server, error);
+            console.error(`SSR error: ${err.stack ?? err}`);
+            if (res.headersSent) {
+              res.end();
+              return;
+            }
+            sendDevError(req, res, err);
+          }
+        });
+      };
+
+      if (backendProcessMode) {
+        // Hold API requests while the backend (re)starts; Vite's proxy middleware runs after this one
+        server.middlewares.use(async (req, res, next) => {
+          const url = req.url;
+          if (!url || !routes.some((route) => matchesPrefix(url, route.prefix))) {
+            return next();
+          }
+
+          if (await waitForBackend()) return next();
+
+          res.statusCode = 503;
+          res.setHeader("Retry-After", "1");
+          res.end("API server is not ready");
+        });
+        return installSsrMiddleware;
+      }
 
       server.middlewares.use(async (req, res, next) => {
-        // Only handle /api routes
-        if (!req.url?.startsWith("/api")) {
+        // Only handle requests under a mounted API prefix
+        const url = req.url;
+        const mount = url ? routes.find((route) => matchesPrefix(url, route.prefix)) : undefined;
+        if (!mount) {
           return next();
         }
+        const { api } = mount;
+
+        // Set once a 413 has been sent, so a late response from Elysia is discarded
+        let rejected = false;
+        const rejectTooLarge = () => {
+          if (rejected) return;
+          rejected = true;
+          if (res.headersSent) {
+            res.end();
+            return;
+          }
+          res.statusCode = 413;
+          res.end("Payload Too Large");
+        };
 
         try {
           // Build the full URL
@@ -220,48 +961,63 @@ console.log("WebSocket server running at ws://localhost:${backendPort}");
           const host = req.headers.host || "localhost:3000";
           const url = `${protocol}://${host}${req.url}`;
 
-          // Collect body for non-GET requests
-          let body: Buffer | undefined;
+          // Stream the body for non-GET requests
+          let body: ReadableStream<Uint8Array> | undefined;
           if (req.method !== "GET" && req.method !== "HEAD") {
-            const chunks: Buffer[] = [];
-            let totalSize = 0;
-
-            for await (const chunk of req) {
-              totalSize += chunk.length;
-              if (totalSize > MAX_BODY_SIZE) {
-                res.statusCode = 413;
-                res.end("Payload Too Large");
-                return;
-              }
-              chunks.push(chunk);
+            // Reject declared oversized uploads before reading any bytes
+            const contentLength = Number(req.headers["content-length"]);
+            if (contentLength > MAX_BODY_SIZE) {
+              rejectTooLarge();
+              return;
             }
-            body = Buffer.concat(chunks);
+
+            const bodyStream = createBodyStream(req, MAX_BODY_SIZE, rejectTooLarge);
+            await bodyStream.ready;
+            if (rejected) return;
+            body = bodyStream.stream;
           }
 
           // Create a Request object for Elysia
           const request = new Request(url, {
             method: req.method,
             headers: req.headers as Record<string, string>,
-            body: body,
+            body,
+            duplex: "half",
           });
 
           // Handle with Elysia
           const response = await api.handle(request);
+          if (rejected) {
+            await response.body?.cancel();
+            return;
+          }
+          // Errors the app's own error hooks answered with a non-5xx response are left alone
+          if (handlerErrors.has(request) && response.status >= 500) {
+            const error = handlerErrors.get(request);
+            if (await isDefaultErrorResponse(response, error)) {
+              await response.body?.cancel();
+              throw error;
+            }
+            // A 5xx from the app's own error hook is sent as is, only the overlay shows the error
+            reportError(server, error);
+          }
 
-          // Send response
-          res.statusCode = response.status;
-          response.headers.forEach((value: string, key: string) => {
-            res.setHeader(key, value);
-          });
-
-          const responseBody = await response.text();
-          res.end(responseBody);
+          // Stream response back to the client
+          await sendResponse(res, response);
         } catch (error) {
-          console.error(`Elysia error: ${error}`);
-          res.statusCode = 500;
-          res.end("Internal Server Error");
+          if (rejected) return;
+          const err = reportError(server, error);
+          console.error(`Elysia error: ${err.stack ?? err}`);
+          // Headers already went out with the first chunk, so just close the connection
+          if (res.headersSent) {
+            res.end();
+            return;
+          }
+          sendDevError(req, res, err);
         }
       });
+
+      return installSsrMiddleware;
     },
   };
 }
@@ -0,0 +1,203 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { DEFAULT_API_ENTRY, loadConfig } from "./config";
+
+/**
+ * Options of the `init` command.
+ */
+export interface InitOptions {
+  /**
+   * The Vite project to set up.
+   * @default process.cwd()
+   */
+  root?: string;
+  /**
+   * Overwrite an existing API entry and `build`/`start` scripts.
+   * @default false
+   */
+  force?: boolean;
+}
+
+/**
+ * Vite config file names, in the order Vite looks them up.
+ */
+const VITE_CONFIG_FILES = ["vite.config.js", "vite.config.mjs", "vite.config.ts", "vite.config.cjs", "vite.config.mts"];
+
+/**
+ * Frameworks recognized from the dependencies of `package.json`.
+ */
+const FRAMEWORKS: Array<[dependency: string, name: string]> = [
+  ["react", "React"],
+  ["preact", "Preact"],
+  ["vue", "Vue"],
+  ["svelte", "Svelte"],
+  ["solid-js", "Solid"],
+  ["lit", "Lit"],
+];
+
+/**
+ * Lockfiles of package managers other than Bun.
+ */
+const OTHER_LOCKFILES = ["package-lock.json", "yarn.lock", "pnpm-lock.yaml"];
+
+type PackageJson = {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+};
+
+/**
+ * A minimal API entry, routed under `prefix`.
+ */
+function apiTemplate(prefix: string): string {
+  return `import { Elysia } from "elysia";
+
+export const api = new Elysia({ prefix: ${JSON.stringify(prefix)} }).get("/hello", () => ({
+  message: "Hello from Elysia",
+}));
+
+export default api;
+`;
+}
+
+/**
+ * A Vite config for projects that have none yet.
+ */
+function viteConfigTemplate(serverFile: string): string {
+  return `import { defineConfig } from "vite";
+import elysiaPlugin from "vite-elysia-forge";
+
+export default defineConfig({
+  plugins: [elysiaPlugin({ serverFile: ${JSON.stringify(serverFile)} })],
+});
+`;
+}
+
+/**
+ * Registers `elysiaPlugin` in a Vite config, following the file's quote and semicolon style.
+ * Returns `null` when the config has no `plugins` array or `defineConfig({` call to add it to.
+ */
+function patchViteConfig(source: string, serverFile: string): string | null {
+  const quote = /from\s+'/.test(source) ? "'" : '"';
+  const semi = /^import[^\n]*;[ \t]*$/m.test(source) ? ";" : "";
+  const call = `elysiaPlugin({ serverFile: ${quote}${serverFile}${quote} })`;
+
+  let patched: string;
+  if (/plugins\s*:\s*\[/.test(source)) {
+    patched = source.replace(/plugins\s*:\s*\[\s*(\]?)/, (match, close: string) =>
+      close ? `plugins: [${call}]` : `${match}${call}, `
+    );
+  } else if (/defineConfig\(\s*\{/.test(source)) {
+    patched = source.replace(/defineConfig\(\s*\{/, (match) => `${match}\n  plugins: [${call}],`);
+  } else {
+    return null;
+  }
+
+  const importLine = `import elysiaPlugin from ${quote}vite-elysia-forge${quote}${semi}`;
+  const imports = [...patched.matchAll(/^import\b[^;]*?from\s*['"][^'"]+['"];?[ \t]*$/gm)];
+  const last = imports[imports.length - 1];
+  if (!last) return `${importLine}\n${patched}`;
+
+  const end = last.index! + last[0].length;
+  return `${patched.slice(0, end)}\n${importLine}${patched.slice(end)}`;
+}
+
+/**
+ * Sets up vite-elysia-forge in an existing Vite project: creates the API entry, registers
+ * `elysiaPlugin` in the Vite config and adds `build`/`start` scripts. Nothing is changed when
+ * the API entry or a differing script already exists, unless `force` is set.
+ */
+export async function init(options: InitOptions = {}): Promise<void> {
+  const root = options.root || process.cwd();
+  const force = options.force || false;
+
+  const packageFile = join(root, "package.json");
+  const pkg: PackageJson = existsSync(packageFile) ? JSON.parse(readFileSync(packageFile, "utf8")) : {};
+  const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+  const viteConfigName = VITE_CONFIG_FILES.find((name) => existsSync(join(root, name)));
+
+  if (!existsSync(packageFile) || (!dependencies.vite && !viteConfigName)) {
+    console.error("❌ No Vite project found in this directory.");
+    console.error("   Create one first, then run init again:");
+    console.error("   $ bun create vite");
+    process.exit(1);
+  }
+
+  const framework = FRAMEWORKS.find(([dependency]) => dependencies[dependency])?.[1] ?? "Vanilla";
+  const typescript = Boolean(dependencies.typescript) || existsSync(join(root, "tsconfig.json"));
+  console.log(`🔍 Found a ${framework}${typescript ? " + TypeScript" : ""} Vite project`);
+
+  const otherLockfile = OTHER_LOCKFILES.find((name) => existsSync(join(root, name)));
+  if (otherLockfile) {
+    console.log(`⚠️  Found ${otherLockfile}, but vite-elysia-forge runs on Bun. Install with \`bun install\`.`);
+  }
+
+  // Paths the build expects, including those of an existing project config file
+  const config = (await loadConfig(root))?.config ?? {};
+  const apiEntry = config.apiEntry || DEFAULT_API_ENTRY;
+  const serverFile = "/" + apiEntry.replace(/^\.?\//, "");
+  const apiPrefix = config.apiPrefix || "/api";
+  const serverDir = config.build?.serverDir || config.build?.staticDir || "dist";
+
+  const apiFile = join(root, apiEntry);
+  const scripts = { ...pkg.scripts };
+  // `vite-elysia-forge build` runs `vite build` itself, so it takes its place in an existing script,
+  // keeping steps such as `tsc -b`
+  const buildScript = !scripts.build
+    ? "vite-elysia-forge build"
+    : scripts.build.includes("vite-elysia-forge build")
+      ? scripts.build
+      : /\bvite build\b/.test(scripts.build)
+        ? scripts.build.replace(/\bvite build\b/, "vite-elysia-forge build")
+        : null;
+  // The server resolves its static directory against the working directory, relative to `server.js`
+  const startScript = `cd ${serverDir} && bun server.js`;
+
+  const conflicts: string[] = [];
+  if (existsSync(apiFile)) conflicts.push(apiEntry);
+  if (!buildScript) conflicts.push(`the "build" script (${scripts.build})`);
+  if (scripts.start && scripts.start !== startScript) conflicts.push(`the "start" script (${scripts.start})`);
+
+  if (conflicts.length > 0 && !force) {
+    console.error("❌ Refusing to overwrite existing files:");
+    for (const conflict of conflicts) console.error(`   ${conflict}`);
+    console.error("   Run again with --force to overwrite them.");
+    process.exit(1);
+  }
+
+  mkdirSync(dirname(apiFile), { recursive: true });
+  writeFileSync(apiFile, apiTemplate(apiPrefix));
+  console.log(`✅ Created ${apiEntry}`);
+
+  if (!viteConfigName) {
+    writeFileSync(join(root, "vite.config.ts"), viteConfigTemplate(serverFile));
+    console.log("✅ Created vite.config.ts with elysiaPlugin");
+  } else {
+    const viteConfigFile = join(root, viteConfigName);
+    const source = readFileSync(viteConfigFile, "utf8");
+    const patched = source.includes("vite-elysia-forge") ? source : patchViteConfig(source, serverFile);
+
+    if (patched === source) {
+      console.log(`⏭️  ${viteConfigName} already registers elysiaPlugin`);
+    } else if (patched) {
+      writeFileSync(viteConfigFile, patched);
+      console.log(`✅ Registered elysiaPlugin in ${viteConfigName}`);
+    } else {
+      console.log(`⚠️  Could not find the plugins of ${viteConfigName}. Register the plugin yourself:`);
+      console.log(`   plugins: [elysiaPlugin({ serverFile: ${JSON.stringify(serverFile)} })]`);
+    }
+  }
+
+  scripts.build = buildScript ?? "vite-elysia-forge build";
+  scripts.start = startScript;
+  const indent = readFileSync(packageFile, "utf8").match(/^[ \t]+(?=")/m)?.[0] ?? 2;
+  writeFileSync(packageFile, JSON.stringify({ ...pkg, scripts }, null, indent) + "\n");
+  console.log(`✅ Added "build" and "start" scripts to package.json`);
+
+  const missing = ["elysia", "vite-elysia-forge"].filter((name) => !dependencies[name]);
+  console.log("\n💡 Next steps:");
+  if (missing.length > 0) console.log(`   bun add ${missing.join(" ")}`);
+  console.log("   bun run dev");
+  console.log(`   Then open ${apiPrefix}/hello, served by ${apiEntry}`);
+}
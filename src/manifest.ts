@@ -0,0 +1,206 @@
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Name of the build manifest, written next to the server bundle.
+ */
+export const MANIFEST_FILE = "build-manifest.json";
+
+/**
+ * Name of the OpenAPI document written by `--openapi`, next to the server bundle.
+ */
+export const OPENAPI_FILE = "openapi.json";
+
+// Platform and variants of a compile target, which also make up the binary names
+const TARGET_PLATFORM = "(linux|darwin|windows)-(x64|arm64)(-(baseline|modern|musl))*";
+
+/**
+ * Platforms `bun build --compile` can target, optionally with a variant such as "musl" or "baseline".
+ */
+export const COMPILE_TARGET = new RegExp(`^bun-${TARGET_PLATFORM}$`);
+
+/**
+ * Paths in a shared output directory that belong to the server rather than the frontend: the bundle,
+ * its source map and chunks, the compiled binaries and the build manifest.
+ */
+export const SERVER_OUTPUT = new RegExp(
+  `^(server(\\.js(\\.map)?|-chunks/.+|-${TARGET_PLATFORM}(\\.exe)?)?|build-manifest\\.json)$`
+);
+
+/**
+ * Whether `path`, relative to a shared output directory, belongs to the server. `openapi.json`
+ * only does when the build writes it there, so a document of the frontend's own is still served.
+ */
+export function isServerOutput(path: string, openapi = false): boolean {
+  return SERVER_OUTPUT.test(path) || (openapi && path === OPENAPI_FILE);
+}
+
+/**
+ * File name of the binary compiled for `target`, or for the host platform.
+ */
+export function binaryName(target: string | undefined): string {
+  return target ? `server-${target.replace(/^bun-/, "")}${target.includes("windows") ? ".exe" : ""}` : "server";
+}
+
+/**
+ * Maximum sizes the build must stay within, in bytes or as a string such as "500kb" or "2mb".
+ */
+export interface SizeBudget {
+  /**
+   * Maximum size of the server bundle (`server.js`).
+   */
+  server?: number | string;
+  /**
+   * Maximum size of any static JavaScript or CSS chunk.
+   */
+  chunk?: number | string;
+}
+
+/**
+ * What a build produced, written to `<serverDir>/build-manifest.json`. Paths are relative to
+ * the project root, with "/" separators; sizes are in bytes and timings in milliseconds.
+ */
+export interface BuildManifest {
+  /** When the build finished, as an ISO 8601 timestamp. */
+  builtAt: string;
+  /** The bundled API entries and the prefix each is routed under. */
+  api: Array<{ entry: string; prefix: string }>;
+  /** The SSR entry bundled into the server, if any. */
+  ssrEntry?: string;
+  /** The server bundle, or `null` when the server build was skipped. */
+  server: { path: string; size: number } | null;
+  /** The compiled binaries, with the platform each was compiled for (`null` for the host). */
+  binaries: Array<{ path: string; target: string | null; size: number }>;
+  /** The static output, with a SHA-256 hash of each file and the total size without precompressed siblings. */
+  static: { dir: string; size: number; files: Array<{ path: string; size: number; hash: string }> };
+  /** Compile targets of `build-compile`. */
+  targets: string[];
+  /** Duration of each build step that ran, and of the whole build as `total`. */
+  timings: Record<string, number>;
+  /** The size budget and the files that exceed it, when one is set. */
+  budget?: { server?: number; chunk?: number; exceeded: Array<{ path: string; size: number; limit: number }> };
+}
+
+/**
+ * Static files that are chunks for the size budget.
+ */
+const CHUNK_FILE = /\.(m?js|css)$/;
+
+/**
+ * Precompressed siblings written by `--compress`.
+ */
+const SIBLING_FILE = /\.(br|gz)$/;
+
+const SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+};
+
+/**
+ * Parses a size such as 1024, "500kb" or "1.5 MB" into bytes. Returns `undefined` for invalid sizes.
+ */
+export function parseSize(size: number | string): number | undefined {
+  if (typeof size === "number") return size >= 0 ? size : undefined;
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*([kmg]?b?)\s*$/i.exec(size);
+  const unit = match && SIZE_UNITS[match[2]!.toLowerCase()];
+  return unit ? Math.round(parseFloat(match[1]!) * unit) : undefined;
+}
+
+/**
+ * Formats a size in bytes for the summary table.
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 ** 2).toFixed(2)} MB`;
+}
+
+/**
+ * Total size of static files, leaving out precompressed siblings.
+ */
+export function totalSize(files: BuildManifest["static"]["files"]): number {
+  return files.filter((file) => !SIBLING_FILE.test(file.path)).reduce((sum, file) => sum + file.size, 0);
+}
+
+/**
+ * Lists the files of the static output with their sizes and hashes. Returns an empty list
+ * when `dir` does not exist.
+ */
+export function describeStaticFiles(
+  dir: string,
+  exclude: (path: string) => boolean = () => false,
+  prefix = ""
+): BuildManifest["static"]["files"] {
+  if (!statSync(dir, { throwIfNoEntry: false })?.isDirectory()) return [];
+
+  return readdirSync(dir)
+    .sort()
+    .flatMap((entry) => {
+      const filePath = join(dir, entry);
+      const path = `${prefix}${entry}`;
+      if (exclude(path)) return [];
+      if (statSync(filePath).isDirectory()) return describeStaticFiles(filePath, () => false, `${path}/`);
+
+      const content = readFileSync(filePath);
+      return [{ path, size: content.length, hash: createHash("sha256").update(content).digest("hex") }];
+    });
+}
+
+/**
+ * Checks the server bundle and static chunks of a manifest against a size budget.
+ * Limits that are not valid sizes are left out.
+ */
+export function checkBudget(manifest: BuildManifest, budget: SizeBudget): NonNullable<BuildManifest["budget"]> {
+  const server = budget.server === undefined ? undefined : parseSize(budget.server);
+  const chunk = budget.chunk === undefined ? undefined : parseSize(budget.chunk);
+
+  const exceeded: NonNullable<BuildManifest["budget"]>["exceeded"] = [];
+  if (manifest.server && server !== undefined && manifest.server.size > server) {
+    exceeded.push({ path: manifest.server.path, size: manifest.server.size, limit: server });
+  }
+  if (chunk !== undefined) {
+    for (const file of manifest.static.files) {
+      if (CHUNK_FILE.test(file.path) && file.size > chunk) {
+        exceeded.push({ path: `${manifest.static.dir}/${file.path}`, size: file.size, limit: chunk });
+      }
+    }
+  }
+
+  return { server, chunk, exceeded };
+}
+
+/**
+ * Formats the size summary of a manifest: the server bundle, binaries and the largest static
+ * files, leaving out precompressed siblings.
+ */
+export function formatSummary(manifest: BuildManifest, maxStaticFiles = 10): string {
+  const rows: Array<[string, number]> = [];
+  if (manifest.server) rows.push([manifest.server.path, manifest.server.size]);
+  for (const binary of manifest.binaries) rows.push([binary.path, binary.size]);
+
+  const staticFiles = manifest.static.files
+    .filter((file) => !SIBLING_FILE.test(file.path))
+    .sort((a, b) => b.size - a.size);
+  for (const file of staticFiles.slice(0, maxStaticFiles)) {
+    rows.push([`${manifest.static.dir}/${file.path}`, file.size]);
+  }
+
+  const overBudget = new Set(manifest.budget?.exceeded.map((file) => file.path));
+  const width = Math.max(4, ...rows.map(([path]) => path.length));
+  const row = (label: string, size: number) => `   ${label.padEnd(width)}  ${formatSize(size).padStart(10)}`;
+  const lines = rows.map(([path, size]) => row(path, size) + (overBudget.has(path) ? "  ❌ over budget" : ""));
+
+  if (staticFiles.length > maxStaticFiles) lines.push(`   … and ${staticFiles.length - maxStaticFiles} more`);
+  const count = `${staticFiles.length} static file${staticFiles.length === 1 ? "" : "s"}`;
+  lines.push(row(count, manifest.static.size));
+
+  return [`   ${"File".padEnd(width)}  ${"Size".padStart(10)}`, ...lines].join("\n");
+}
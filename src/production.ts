@@ -1,36 +1,591 @@
-import { resolve, join } from "node:path";
+import { createWriteStream, readFileSync } from "node:fs";
+import { resolve, join, relative, sep } from "node:path";
+import { promisify } from "node:util";
+import { brotliCompress, constants as zlibConstants, gzip } from "node:zlib";
+import type { BunFile, Server } from "bun";
 import { Elysia } from "elysia";
+import { SERVER_OUTPUT } from "./manifest";
+import { createApiFetch, renderPage, type SsrModule } from "./ssr";
+
+export type { SsrContext, SsrModule, SsrResult } from "./ssr";
 
 /**
  * Options for starting the production server.
  */
 export interface ProductionOptions {
   /**
-   * The port to listen on.
+   * The port to listen on; `0` picks any free port, shown in the logged URL.
    * @default 3000
    */
   port?: number;
+  /**
+   * The hostname to listen on, e.g. "127.0.0.1" to only accept local connections.
+   * @default "0.0.0.0"
+   */
+  hostname?: string;
+  /**
+   * Path of a Unix socket to listen on instead of `port` and `hostname`.
+   */
+  unix?: string;
+  /**
+   * Serve over HTTPS with the given certificate and private key.
+   */
+  tls?: TlsOptions;
   /**
    * The directory containing the built frontend assets.
    * @default "dist"
    */
   distDir?: string;
+  /**
+   * Static files to serve from memory instead of `distDir`, keyed by their path relative to it
+   * (e.g. "assets/app.js"), with the path Bun reads them from as value, such as that of a file
+   * embedded in a compiled binary. Files missing from it are looked up in `distDir`.
+   */
+  assets?: Record<string, string>;
+  /**
+   * Files in `distDir`, by their path relative to it, that are never served, in addition to the
+   * server bundle, compiled binaries and build manifest. The generated server entry lists
+   * `openapi.json` here when `--openapi` writes it next to the static files.
+   */
+  hiddenFiles?: string[];
   /**
    * The name of the HTML entry file.
    * @default "index.html"
    */
   htmlFile?: string;
+  /**
+   * Which HTML file answers GET requests that match no static file. Rules are tried in order
+   * and the first match wins; a string `path` matches that path prefix on a segment boundary.
+   * Set to `false` to disable the SPA fallback, so unmatched paths receive a 404.
+   * @default [{ path: "/", html: htmlFile }]
+   */
+  fallback?: FallbackRule[] | false;
+  /**
+   * HTML file, relative to `distDir`, sent with status 404 when no static file or fallback
+   * rule matches a GET request. Set to `false` to answer with a plain "Not Found".
+   * @default "404.html" (when it exists)
+   */
+  notFoundFile?: string | false;
   /**
    * The prefix for API routes. Requests starting with this prefix will be handled by the Elysia app.
+   * Pass several prefixes when multiple API modules are mounted.
    * @default "/api"
    */
-  apiPrefix?: string;
+  apiPrefix?: string | string[];
+  /**
+   * Serve `.br`/`.gz` siblings of static files (e.g. `app.js.br`) to clients that accept them.
+   * @default true
+   */
+  precompressed?: boolean;
+  /**
+   * Compress static files that have no precompressed sibling on the fly, keeping the
+   * results in an in-memory cache. Pass an object to tune the size threshold and cache size.
+   * @default false
+   */
+  compress?: boolean | CompressOptions;
+  /**
+   * `Cache-Control` policy for static files. Every static file also gets `ETag` and
+   * `Last-Modified`, and conditional requests are answered with `304 Not Modified`.
+   * Set to `false` to send no `Cache-Control` header.
+   */
+  cacheControl?: CacheControlOptions | false;
+  /**
+   * Log every request, API and static alike, with its method, path, status, duration,
+   * response size and client IP. `true` logs in `combined` format to stdout.
+   * @default false
+   */
+  accessLog?: boolean | AccessLogOptions;
+  /**
+   * Send security headers with every response, API and static alike. Headers a response
+   * already sets are kept. `true` sends HSTS, `X-Content-Type-Options`, `Referrer-Policy`
+   * and `X-Frame-Options` with their defaults, but no Content-Security-Policy.
+   * @default false
+   */
+  securityHeaders?: boolean | SecurityHeadersOptions;
+  /**
+   * Serve liveness and readiness probes for orchestrators. `true` enables them on
+   * `/healthz` and `/readyz`. Readiness fails until `onStart` has finished, while
+   * `readinessCheck` fails and once the server is shutting down.
+   * @default false
+   */
+  health?: boolean | HealthOptions;
+  /**
+   * Drain in-flight requests and stop the server on `SIGTERM` and `SIGINT`, then exit.
+   * @default true
+   */
+  handleSignals?: boolean;
+  /**
+   * How long to wait, in milliseconds, for in-flight requests to finish when stopping
+   * before the remaining connections are closed.
+   * @default 10000
+   */
+  shutdownTimeout?: number;
+  /**
+   * How long to keep serving, in milliseconds, after readiness starts failing on shutdown and
+   * before the server stops accepting connections, so load balancers can take it out of rotation.
+   * @default 5000 with `health`, otherwise 0
+   */
+  shutdownDelay?: number;
+  /**
+   * Called once the server is listening, e.g. to warm up caches. A rejected promise
+   * stops the process.
+   */
+  onStart?: (handle: ServerHandle) => void | Promise<void>;
+  /**
+   * Called after the server has stopped and in-flight requests have drained, e.g. to
+   * close database pools.
+   */
+  onShutdown?: () => void | Promise<void>;
+  /**
+   * The built SSR entry module. When set, `/`, `index.html` and the SPA fallback are rendered
+   * with its `render(url, context)` into the `<!--app-html-->` placeholder of the HTML file,
+   * and `context.api`/`context.fetch` call `api` in-process.
+   */
+  ssr?: SsrModule;
   /**
    * The Elysia app instance or an object with a `handle` method.
    */
   api: { handle: (request: Request) => Promise<Response> } | any;
 }
 
+/**
+ * Format, destination and request ID handling of the access log.
+ */
+export interface AccessLogOptions {
+  /**
+   * `"combined"` for the Apache/nginx combined format followed by the duration and request ID,
+   * or `"json"` for one JSON object per line.
+   * @default "combined"
+   */
+  format?: "combined" | "json";
+  /**
+   * Append to this file instead of writing to stdout.
+   */
+  file?: string;
+  /**
+   * Header carrying the request ID. An incoming ID is reused, otherwise one is generated;
+   * either way it is passed on to the API and echoed in the response.
+   * @default "X-Request-Id"
+   */
+  requestIdHeader?: string;
+}
+
+/**
+ * Security headers sent by the production server. Set a header to `false` to omit it.
+ */
+export interface SecurityHeadersOptions {
+  /**
+   * `Strict-Transport-Security` value. Browsers ignore it over plain HTTP, so it is safe
+   * to send behind a TLS-terminating proxy.
+   * @default "max-age=15552000; includeSubDomains"
+   */
+  hsts?: string | false;
+  /**
+   * Send `X-Content-Type-Options: nosniff`.
+   * @default true
+   */
+  noSniff?: boolean;
+  /**
+   * `Referrer-Policy` value.
+   * @default "strict-origin-when-cross-origin"
+   */
+  referrerPolicy?: string | false;
+  /**
+   * `X-Frame-Options` value.
+   * @default "DENY"
+   */
+  frameOptions?: "DENY" | "SAMEORIGIN" | false;
+  /**
+   * `Content-Security-Policy` value. Each `{nonce}` is replaced with a fresh nonce per response,
+   * e.g. `"script-src 'self' 'nonce-{nonce}'"`, and served HTML pages get the same nonce on
+   * their `<script>`, `<style>` and `<link>` tags plus a `<meta property="csp-nonce">` for
+   * Vite's preload helper. Server-rendered pages only get it on the template's tags; `render`
+   * receives it as `context.nonce` for tags it adds.
+   * @default false
+   */
+  contentSecurityPolicy?: string | false;
+}
+
+/**
+ * Paths and checks of the health endpoints.
+ */
+export interface HealthOptions {
+  /**
+   * Liveness probe path. Answers 200 while the process serves requests.
+   * @default "/healthz"
+   */
+  livenessPath?: string;
+  /**
+   * Readiness probe path. Answers 200 when ready for traffic and 503 otherwise.
+   * @default "/readyz"
+   */
+  readinessPath?: string;
+  /**
+   * Decides whether the server is ready, e.g. by pinging the database. Returning `false`
+   * or throwing answers 503.
+   */
+  readinessCheck?: () => boolean | Promise<boolean>;
+}
+
+/**
+ * A running production server, returned by `startServer`.
+ */
+export interface ServerHandle {
+  /** The underlying Bun server. */
+  server: Server<unknown>;
+  /** Where the server can be reached, e.g. "http://localhost:3000" or "unix:/run/app.sock". */
+  url: string;
+  /**
+   * Stops accepting connections, waits for in-flight requests (up to `shutdownTimeout`)
+   * and runs `onShutdown`. Calling it again returns the same promise.
+   */
+  stop: () => Promise<void>;
+}
+
+/**
+ * Maps request paths to the HTML entry that renders them, e.g. for Vite multi-page builds.
+ */
+export interface FallbackRule {
+  /** A path prefix such as "/admin", or a pattern tested against the request path. */
+  path: string | RegExp;
+  /** The HTML file to send, relative to `distDir`, e.g. "admin/index.html". */
+  html: string;
+}
+
+/**
+ * TLS settings for HTTPS. Each value is either PEM contents or a path to a PEM file,
+ * resolved against the current working directory.
+ */
+export interface TlsOptions {
+  /** The certificate chain. */
+  cert: string;
+  /** The private key. */
+  key: string;
+  /** Additional CA certificates to trust, e.g. for an internal CA. */
+  ca?: string;
+  /** Passphrase of an encrypted private key. */
+  passphrase?: string;
+}
+
+/**
+ * `Cache-Control` header values for the different kinds of static files.
+ */
+export interface CacheControlOptions {
+  /**
+   * Paths (relative to `distDir`, starting with "/") of content-hashed files.
+   * @default /^\/assets\//
+   */
+  immutablePaths?: RegExp;
+  /**
+   * Header for content-hashed files.
+   * @default "public, max-age=31536000, immutable"
+   */
+  immutable?: string;
+  /**
+   * Header for HTML files, including the SPA fallback.
+   * @default "no-cache"
+   */
+  html?: string;
+  /**
+   * Header for all other static files.
+   * @default "public, max-age=0, must-revalidate"
+   */
+  other?: string;
+}
+
+/**
+ * Options for on-the-fly compression of static files.
+ */
+export interface CompressOptions {
+  /**
+   * Files smaller than this many bytes are sent uncompressed.
+   * @default 1024
+   */
+  threshold?: number;
+  /**
+   * Maximum total size in bytes of compressed files kept in memory. Larger files are sent uncompressed.
+   * @default 52428800 (50MB)
+   */
+  cacheSize?: number;
+}
+
+type Encoding = "br" | "gzip";
+
+const brotliAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+
+// Per-request compression favours speed; `build --compress` writes the smallest siblings ahead of time
+const COMPRESSORS: Record<Encoding, (source: Uint8Array) => Promise<Uint8Array>> = {
+  br: (source) => brotliAsync(source, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 5 } }),
+  gzip: (source) => gzipAsync(source, { level: 6 }),
+};
+
+const ENCODING_EXTENSIONS: Record<Encoding, string> = { br: ".br", gzip: ".gz" };
+
+/**
+ * Returns the encodings the client accepts, in server preference order (brotli first).
+ */
+function acceptedEncodings(header: string | null): Encoding[] {
+  if (!header) return [];
+
+  const weights = new Map<string, number>();
+  for (const part of header.split(",")) {
+    const [name = "", ...params] = part.trim().toLowerCase().split(";");
+    const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+    weights.set(name.trim(), q ? Number(q.slice(2)) : 1);
+  }
+
+  const wildcard = weights.get("*") ?? 0;
+  return (["br", "gzip"] as Encoding[]).filter((encoding) => (weights.get(encoding) ?? wildcard) > 0);
+}
+
+/**
+ * Checks `If-None-Match` (or, without it, `If-Modified-Since`) against a file's validators.
+ */
+function isNotModified(request: Request, etag: string, lastModified: number): boolean {
+  if (request.method !== "GET" && request.method !== "HEAD") return false;
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    // Weak comparison, as the ETags are weak and may differ only in the W/ marker
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some((tag) => opaque(tag) === opaque(etag));
+  }
+
+  const ifModifiedSince = request.headers.get("if-modified-since");
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !Number.isNaN(since) && Math.floor(lastModified / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Checks whether a range request still targets the same file version. ETags use the strong
+ * comparison RFC 9110 requires for `If-Range`, so the weak ETags served here never match and
+ * only a date equal to the modification time does.
+ */
+function isRangeFresh(request: Request, etag: string, lastModified: number): boolean {
+  const ifRange = request.headers.get("if-range");
+  if (!ifRange) return true;
+
+  if (ifRange.includes('"')) return !etag.startsWith("W/") && ifRange.trim() === etag;
+
+  const date = Date.parse(ifRange);
+  return !Number.isNaN(date) && Math.floor(lastModified / 1000) * 1000 === date;
+}
+
+/**
+ * Parses a `Range` header for a file of `size` bytes. Returns `null` when the header
+ * should be ignored (invalid syntax or several ranges) and `"unsatisfiable"` for a 416.
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | "unsatisfiable" | null {
+  if (!header.startsWith("bytes=")) return null;
+
+  const specs = header.slice("bytes=".length).split(",");
+  if (specs.length !== 1) return null;
+
+  const match = /^\s*(\d*)-(\d*)\s*$/.exec(specs[0] ?? "");
+  if (!match || (!match[1] && !match[2])) return null;
+
+  // Suffix range: the last N bytes
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : size - 1;
+  if (end < start) return null;
+  if (start >= size) return "unsatisfiable";
+  return { start, end: Math.min(end, size - 1) };
+}
+
+/**
+ * One access log line.
+ */
+interface AccessLogEntry {
+  time: Date;
+  requestId: string;
+  method: string;
+  path: string;
+  status: number;
+  /** Milliseconds until the response was ready. */
+  duration: number;
+  /** Size of the response body: its `Content-Length`, or counted as the body is sent. */
+  bytes: number;
+  ip: string | null;
+  referer: string | null;
+  userAgent: string | null;
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Formats an entry like the combined log format, e.g.
+ * `1.2.3.4 - - [19/Oct/2026:13:55:36 +0000] "GET /api/users HTTP/1.1" 200 512 "-" "curl/8.5.0" 3.2ms 0b1c…`
+ */
+function formatCombined(entry: AccessLogEntry): string {
+  const t = entry.time;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const date =
+    `${pad(t.getUTCDate())}/${MONTHS[t.getUTCMonth()]}/${t.getUTCFullYear()}:` +
+    `${pad(t.getUTCHours())}:${pad(t.getUTCMinutes())}:${pad(t.getUTCSeconds())} +0000`;
+  const quote = (value: string | null) => (value ? JSON.stringify(value) : '"-"');
+
+  return (
+    `${entry.ip ?? "-"} - - [${date}] "${entry.method} ${entry.path} HTTP/1.1" ${entry.status} ${entry.bytes} ` +
+    `${quote(entry.referer)} ${quote(entry.userAgent)} ${entry.duration.toFixed(1)}ms ${entry.requestId}`
+  );
+}
+
+/**
+ * Formats an entry as a single JSON line.
+ */
+function formatJson(entry: AccessLogEntry): string {
+  return JSON.stringify({ ...entry, time: entry.time.toISOString(), duration: Math.round(entry.duration * 100) / 100 });
+}
+
+/**
+ * Passes a response body through and calls `done` with the number of bytes sent once it
+ * ends, fails or is cancelled by the client.
+ */
+function countBytes(body: ReadableStream<Uint8Array>, done: (bytes: number) => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let bytes = 0;
+  let finished = false;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    done(bytes);
+  };
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const chunk = await reader.read();
+        if (chunk.done) {
+          controller.close();
+          finish();
+          return;
+        }
+        bytes += chunk.value.byteLength;
+        controller.enqueue(chunk.value);
+      } catch (error) {
+        controller.error(error);
+        finish();
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Incoming request IDs are reused only when they look like an ID, so they are safe to log.
+ */
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Generates a CSP nonce: 128 random bits, base64-encoded.
+ */
+function createNonce(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString("base64");
+}
+
+/**
+ * Adds a nonce to the tags of an HTML page that a nonce-based policy checks, and exposes it
+ * to scripts through `<meta property="csp-nonce">`, where Vite's preload helper looks for it.
+ */
+function injectNonce(html: string, nonce: string): string {
+  return html
+    .replace(/<(script|style|link)\b/gi, `<$1 nonce="${nonce}"`)
+    .replace(/<head\b[^>]*>/i, (head) => `${head}<meta property="csp-nonce" nonce="${nonce}">`);
+}
+
+/**
+ * Adds the headers a response does not set itself, copying the response first when its
+ * headers are immutable (e.g. `Response.redirect`).
+ */
+function addMissingHeaders(response: Response, headers: Record<string, string>): Response {
+  const missing = Object.entries(headers).filter(([name]) => !response.headers.has(name));
+  if (missing.length === 0) return response;
+
+  let target = response;
+  try {
+    target.headers.set(missing[0]![0], missing[0]![1]);
+  } catch {
+    target = new Response(response.body, response);
+  }
+  for (const [name, value] of missing) target.headers.set(name, value);
+  return target;
+}
+
+/**
+ * Checks whether a request path is matched by a fallback rule path.
+ */
+function matchesRule(pathname: string, path: string | RegExp): boolean {
+  if (path instanceof RegExp) return path.test(pathname);
+  const base = path.endsWith("/") ? path.slice(0, -1) : path;
+  return pathname === base || pathname.startsWith(base + "/");
+}
+
+/**
+ * Returns PEM contents as-is and reads anything else as a path to a PEM file.
+ */
+function readPem(value: string): string {
+  if (value.includes("-----BEGIN")) return value;
+  return readFileSync(resolve(process.cwd(), value), "utf8");
+}
+
+/**
+ * Whether a MIME type is worth compressing.
+ */
+function isCompressible(type: string): boolean {
+  return /^text\/|\/(javascript|json|xml|wasm)\b|\+(json|xml)\b|^image\/svg/.test(type);
+}
+
+/**
+ * Stop functions of the servers that handle signals. One pair of signal listeners is
+ * shared by all of them and removed once none is left.
+ */
+const signalStops = new Set<() => Promise<void>>();
+let signalReceived = false;
+
+const onSignal = (signal: NodeJS.Signals) => {
+  // A second signal while draining skips the wait
+  if (signalReceived) process.exit(1);
+  signalReceived = true;
+
+  console.log(`Received ${signal}, shutting down...`);
+  Promise.all([...signalStops].map((stop) => stop())).then(
+    () => process.exit(0),
+    (error) => {
+      console.error("Shutdown failed:", error);
+      process.exit(1);
+    }
+  );
+};
+
+function watchSignals(stop: () => Promise<void>): void {
+  if (signalStops.size === 0) {
+    process.on("SIGTERM", onSignal);
+    process.on("SIGINT", onSignal);
+  }
+  signalStops.add(stop);
+}
+
+function unwatchSignals(stop: () => Promise<void>): void {
+  if (!signalStops.delete(stop) || signalStops.size > 0) return;
+  process.off("SIGTERM", onSignal);
+  process.off("SIGINT", onSignal);
+}
+
 /**
  * Starts a production server using Bun.serve.
  *
@@ -38,19 +593,298 @@ export interface ProductionOptions {
  * and handles API requests using the provided Elysia app instance.
  *
  * @param options - Configuration options for the production server.
+ * @returns A handle to stop the server.
  * @throws {Error} If not running in a Bun environment.
  */
-export const startServer = (options: ProductionOptions): void => {
-  const port = options.port || 3000;
+export const startServer = (options: ProductionOptions): ServerHandle => {
+  const port = options.port ?? 3000;
   const dist = resolve(process.cwd(), options.distDir || "dist");
   const indexHtml = join(dist, options.htmlFile || "index.html");
-  const apiPrefix = options.apiPrefix || "/api";
+  const fallbackRules = options.fallback === false ? [] : options.fallback || [{ path: "/", html: indexHtml }];
+  const notFoundHtml = options.notFoundFile === false ? null : join(dist, options.notFoundFile || "404.html");
+  const apiPrefixes = ([] as string[]).concat(options.apiPrefix || "/api");
+  const hiddenFiles = new Set((options.hiddenFiles || []).map((path) => path.replace(/^\/+/, "")));
   const api = options.api;
 
+  const precompressed = options.precompressed ?? true;
+  const compress = options.compress ? (options.compress === true ? {} : options.compress) : null;
+  const compressThreshold = compress?.threshold ?? 1024;
+  const compressCacheSize = compress?.cacheSize ?? 50 * 1024 * 1024;
+
+  const cacheControl = options.cacheControl === false ? null : options.cacheControl || {};
+  const immutablePaths = cacheControl?.immutablePaths ?? /^\/assets\//;
+
   if (typeof Bun === "undefined") throw new Error("This production server utility requires Bun.");
 
+  // Embedded files report no meaningful modification time, so validators use the start time,
+  // which changes with each deployment
+  const assets = options.assets
+    ? new Map(Object.entries(options.assets).map(([name, path]) => [join(dist, name), path]))
+    : null;
+  const startedAt = Date.now();
+
+  const staticFile = (filePath: string): BunFile => Bun.file(assets?.get(filePath) ?? filePath);
+  const lastModifiedOf = (filePath: string, file: BunFile) => (assets?.has(filePath) ? startedAt : file.lastModified);
+
+  const cacheControlFor = (filePath: string): string | undefined => {
+    if (!cacheControl) return undefined;
+    if (filePath.endsWith(".html")) return cacheControl.html ?? "no-cache";
+
+    const urlPath = "/" + relative(dist, filePath).split(sep).join("/");
+    if (immutablePaths.test(urlPath)) return cacheControl.immutable ?? "public, max-age=31536000, immutable";
+    return cacheControl.other ?? "public, max-age=0, must-revalidate";
+  };
+
+  // On-the-fly compression results, keyed by encoding, path and modification time
+  const compressedCache = new Map<string, Uint8Array>();
+  let compressedCacheBytes = 0;
+
+  const compressFile = async (filePath: string, encoding: Encoding): Promise<Uint8Array> => {
+    const file = staticFile(filePath);
+    const key = `${encoding}:${filePath}:${lastModifiedOf(filePath, file)}`;
+    const cached = compressedCache.get(key);
+    if (cached) return cached;
+
+    const source = new Uint8Array(await file.arrayBuffer());
+    const compressed = new Uint8Array(await COMPRESSORS[encoding](source));
+
+    // Evict the oldest entries to stay within the cache budget
+    for (const [oldKey, oldValue] of compressedCache) {
+      if (compressedCacheBytes + compressed.byteLength <= compressCacheSize) break;
+      compressedCache.delete(oldKey);
+      compressedCacheBytes -= oldValue.byteLength;
+    }
+    if (compressed.byteLength <= compressCacheSize) {
+      compressedCache.set(key, compressed);
+      compressedCacheBytes += compressed.byteLength;
+    }
+
+    return compressed;
+  };
+
+  const sendFile = async (request: Request, filePath: string): Promise<Response> => {
+    const file = staticFile(filePath);
+    const lastModified = lastModifiedOf(filePath, file);
+    const headers = new Headers();
+
+    const cacheControlHeader = cacheControlFor(filePath);
+    if (cacheControlHeader) headers.set("Cache-Control", cacheControlHeader);
+    headers.set("Last-Modified", new Date(lastModified).toUTCString());
+
+    // Pick the representation: a precompressed sibling, on-the-fly compression or the file itself
+    let encoding: Encoding | undefined;
+    let sibling: BunFile | undefined;
+    if (precompressed || compress) {
+      headers.set("Vary", "Accept-Encoding");
+      const encodings = acceptedEncodings(request.headers.get("accept-encoding"));
+
+      if (precompressed) {
+        for (const candidate of encodings) {
+          const candidateFile = staticFile(filePath + ENCODING_EXTENSIONS[candidate]);
+          if (await candidateFile.exists()) {
+            encoding = candidate;
+            sibling = candidateFile;
+            break;
+          }
+        }
+      }
+
+      // Files larger than the cache would be compressed again on every request, so they are sent as they are
+      const cacheable = file.size <= compressCacheSize;
+      if (!encoding && compress && cacheable && file.size >= compressThreshold && isCompressible(file.type)) {
+        encoding = encodings[0];
+      }
+    }
+
+    // Weak ETag from size and modification time; each encoding is a separate representation
+    const version = `${file.size.toString(16)}-${Math.floor(lastModified).toString(16)}`;
+    const etag = `W/"${version}${encoding ? `-${encoding}` : ""}"`;
+    headers.set("ETag", etag);
+
+    if (isNotModified(request, etag, lastModified)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    headers.set("Content-Type", file.type);
+    if (encoding) headers.set("Content-Encoding", encoding);
+
+    // Compressed on the fly: no stable bytes to slice, so ranges are not offered
+    if (encoding && !sibling) {
+      const compressed = await compressFile(filePath, encoding);
+      headers.set("Content-Length", String(compressed.byteLength));
+      return new Response(compressed, { headers });
+    }
+
+    // Files support byte ranges, sliced lazily so nothing is read into memory
+    const body = sibling ?? file;
+    headers.set("Accept-Ranges", "bytes");
+
+    const rangeHeader = request.headers.get("range");
+    if (rangeHeader && request.method === "GET" && isRangeFresh(request, etag, lastModified)) {
+      const range = parseRange(rangeHeader, body.size);
+
+      if (range === "unsatisfiable") {
+        headers.set("Content-Range", `bytes */${body.size}`);
+        return new Response(null, { status: 416, headers });
+      }
+
+      if (range) {
+        headers.set("Content-Range", `bytes ${range.start}-${range.end}/${body.size}`);
+        headers.set("Content-Length", String(range.end - range.start + 1));
+        return new Response(body.slice(range.start, range.end + 1), { status: 206, headers });
+      }
+    }
+
+    headers.set("Content-Length", String(body.size));
+    return new Response(body, { headers });
+  };
+
+  // The HTML file is the SSR template; read once, as the build output does not change
+  let ssrTemplate: Promise<string> | undefined;
+
+  // With a nonce, only the template's own tags get it; the rendered markup is left as `render` returned it
+  const renderSsr = async (request: Request, nonce?: string): Promise<Response> => {
+    const template = await (ssrTemplate ??= staticFile(indexHtml).text());
+    const response = await renderPage(options.ssr!, nonce ? injectNonce(template, nonce) : template, {
+      request,
+      api,
+      fetch: createApiFetch(request, () => api),
+      nonce,
+    });
+    if (!cacheControl || response.headers.has("Cache-Control")) return response;
+
+    // Copy first, as a Response returned by `render` may have immutable headers
+    const rendered = new Response(response.body, response);
+    rendered.headers.set("Cache-Control", cacheControl.html ?? "no-cache");
+    return rendered;
+  };
+
+  const security = options.securityHeaders ? (options.securityHeaders === true ? {} : options.securityHeaders) : null;
+  const securityHeaders: Record<string, string> = security
+    ? Object.fromEntries(
+        Object.entries({
+          "Strict-Transport-Security": security.hsts ?? "max-age=15552000; includeSubDomains",
+          "X-Content-Type-Options": security.noSniff !== false && "nosniff",
+          "Referrer-Policy": security.referrerPolicy ?? "strict-origin-when-cross-origin",
+          "X-Frame-Options": security.frameOptions ?? "DENY",
+        }).filter((entry): entry is [string, string] => entry[1] !== false)
+      )
+    : {};
+  const csp = security?.contentSecurityPolicy || null;
+  const usesNonce = !!csp && csp.includes("{nonce}");
+
+  // Each page gets its own nonce, so it is sent whole and without validators, which would
+  // let a client reuse a page with a stale nonce
+  const sendWithNonce = (response: Response, body: ReadableStream | string | null, nonce: string): Response => {
+    const headers = new Headers(response.headers);
+    for (const name of ["ETag", "Last-Modified", "Accept-Ranges", "Content-Length"]) headers.delete(name);
+    headers.set("Content-Security-Policy", csp!.replaceAll("{nonce}", nonce));
+    return new Response(body, { status: response.status, headers });
+  };
+
+  const withNonce = async (response: Response): Promise<Response> => {
+    const nonce = createNonce();
+    return sendWithNonce(response, injectNonce(await response.text(), nonce), nonce);
+  };
+
+  // With SSR, the HTML entry is the render template rather than a page of its own
+  const sendHtml = async (request: Request, htmlPath: string): Promise<Response> => {
+    const rendered = options.ssr && htmlPath === indexHtml;
+    if (!usesNonce) return rendered ? renderSsr(request) : sendFile(request, htmlPath);
+    if (rendered) {
+      const nonce = createNonce();
+      const response = await renderSsr(request, nonce);
+      return sendWithNonce(response, response.body, nonce);
+    }
+    // A plain GET, so the page is neither precompressed, ranged nor a 304
+    return withNonce(await sendFile(new Request(request.url), htmlPath));
+  };
+
   const app = new Elysia();
 
+  // Set once onStart has finished and when shutting down; readiness reports both
+  let started = !options.onStart;
+  let shuttingDown = false;
+
+  // Probes are explicit routes, so the static handler and SPA fallback never see them
+  const health = options.health ? (options.health === true ? {} : options.health) : null;
+  if (health) {
+    const probeResponse = (status: string, code = 200) =>
+      Response.json({ status }, { status: code, headers: { "Cache-Control": "no-store" } });
+
+    app.get(health.livenessPath || "/healthz", () => probeResponse("ok"));
+    app.get(health.readinessPath || "/readyz", async () => {
+      if (shuttingDown) return probeResponse("shutting down", 503);
+      if (!started) return probeResponse("starting", 503);
+
+      try {
+        if (health.readinessCheck && !(await health.readinessCheck())) return probeResponse("unavailable", 503);
+      } catch {
+        return probeResponse("unavailable", 503);
+      }
+      return probeResponse("ready");
+    });
+  }
+
+  const accessLog = options.accessLog ? (options.accessLog === true ? {} : options.accessLog) : null;
+  const logFile = accessLog?.file ? createWriteStream(resolve(process.cwd(), accessLog.file), { flags: "a" }) : null;
+
+  const format = accessLog?.format === "json" ? formatJson : formatCombined;
+  const requestIdHeader = accessLog?.requestIdHeader || "X-Request-Id";
+  const writeLine = (line: string) => {
+    // Bodies cut off when shutting down may finish after the log file was closed
+    if (logFile?.writableEnded) return;
+    (logFile ?? process.stdout).write(line + "\n");
+  };
+
+  if (accessLog || security) {
+    // Wraps every request, so API routes, static files and probes are all logged and get security headers
+    app.wrap(
+      (fn: (...args: unknown[]) => unknown, request: Request) =>
+        async (...args: unknown[]) => {
+          const started = performance.now();
+          let requestId: string | undefined;
+          if (accessLog) {
+            const incomingId = request.headers.get(requestIdHeader);
+            requestId = incomingId && REQUEST_ID.test(incomingId) ? incomingId : crypto.randomUUID();
+            request.headers.set(requestIdHeader, requestId);
+          }
+
+          const result = await fn(...args);
+          // WebSocket upgrades have no response
+          if (!(result instanceof Response)) return result;
+
+          const headers = { ...securityHeaders };
+          if (csp) headers["Content-Security-Policy"] = csp.replaceAll("{nonce}", createNonce());
+          if (requestId) headers[requestIdHeader] = requestId;
+          const response = addMissingHeaders(result, headers);
+          if (!accessLog) return response;
+
+          const url = new URL(request.url);
+          const entry = {
+            time: new Date(),
+            requestId: requestId!,
+            method: request.method,
+            path: url.pathname + url.search,
+            status: response.status,
+            duration: performance.now() - started,
+            ip: app.server?.requestIP(request)?.address ?? null,
+            referer: request.headers.get("referer"),
+            userAgent: request.headers.get("user-agent"),
+          };
+
+          const contentLength = response.headers.get("Content-Length");
+          if (contentLength !== null || !response.body) {
+            writeLine(format({ ...entry, bytes: Number(contentLength ?? 0) }));
+            return response;
+          }
+
+          // Elysia and SSR responses have no Content-Length, so their bodies are counted as they are sent
+          return new Response(countBytes(response.body, (bytes) => writeLine(format({ ...entry, bytes }))), response);
+        }
+    );
+  }
+
   // Mount user's Elysia app (including WS routes)
   if (api) app.use(api);
 
@@ -59,7 +893,7 @@ export const startServer = (options: ProductionOptions): void => {
     const url = new URL(request.url);
 
     // If it looks like an API request but no API route matched, return 404
-    if (url.pathname.startsWith(apiPrefix)) {
+    if (apiPrefixes.some((prefix) => url.pathname.startsWith(prefix))) {
       set.status = 404;
       return "Not Found";
     }
@@ -69,22 +903,118 @@ export const startServer = (options: ProductionOptions): void => {
 
     const filePath = join(dist, path.startsWith("/") ? path.slice(1) : path);
 
+    // Rendered pages replace the HTML entry, including when it is requested directly
+    if (options.ssr && filePath === indexHtml && request.method === "GET") return sendHtml(request, indexHtml);
+
     // Security check: prevent path traversal
     if (!filePath.startsWith(dist)) {
       set.status = 403;
       return "Forbidden";
     }
 
-    const file = Bun.file(filePath);
+    const file = staticFile(filePath);
+    // The server bundle, its source map and build metadata may share the directory, but are not assets
+    const relativePath = relative(dist, filePath).split(sep).join("/");
+    const serverOutput = SERVER_OUTPUT.test(relativePath) || hiddenFiles.has(relativePath);
 
-    if (await file.exists()) return file;
-    if (request.method === "GET") return Bun.file(indexHtml);
+    if (!serverOutput && (await file.exists())) {
+      return usesNonce && filePath.endsWith(".html") ? sendHtml(request, filePath) : sendFile(request, filePath);
+    }
+
+    if (request.method === "GET") {
+      // Like `vite preview`: "/docs/" and "/docs" resolve to docs/index.html, "/about" to about.html
+      const candidates = path.endsWith("/")
+        ? [join(filePath, "index.html")]
+        : [filePath + ".html", join(filePath, "index.html")];
+      for (const candidate of candidates) {
+        if (await staticFile(candidate).exists()) return sendHtml(request, candidate);
+      }
+
+      const rule = fallbackRules.find((rule) => matchesRule(url.pathname, rule.path));
+      if (rule) return sendHtml(request, resolve(dist, rule.html));
+
+      const notFoundPage = notFoundHtml ? staticFile(notFoundHtml) : null;
+      if (notFoundPage && (await notFoundPage.exists())) {
+        const headers = new Headers({ "Content-Type": notFoundPage.type });
+        const cacheControlHeader = cacheControlFor(notFoundHtml!);
+        if (cacheControlHeader) headers.set("Cache-Control", cacheControlHeader);
+        const notFound = new Response(notFoundPage, { status: 404, headers });
+        return usesNonce ? withNonce(notFound) : notFound;
+      }
+    }
 
     set.status = 404;
     return "Not Found";
   });
 
-  app.listen(port);
+  const tls = options.tls && {
+    cert: readPem(options.tls.cert),
+    key: readPem(options.tls.key),
+    ca: options.tls.ca ? readPem(options.tls.ca) : undefined,
+    passphrase: options.tls.passphrase,
+  };
+
+  let url: string;
+  if (options.unix) {
+    app.listen({ unix: options.unix, tls } as Parameters<typeof app.listen>[0]);
+    url = `unix:${options.unix}`;
+  } else {
+    app.listen({ port, hostname: options.hostname, tls });
+    const displayHost = !options.hostname || options.hostname === "0.0.0.0" ? "localhost" : options.hostname;
+    url = `${tls ? "https" : "http"}://${displayHost}:${app.server?.port ?? port}`;
+  }
+  const server = app.server as Server<unknown>;
+
+  console.log(`Production server running at ${url}`);
+
+  const shutdownTimeout = options.shutdownTimeout ?? 10_000;
+  const shutdownDelay = options.shutdownDelay ?? (health ? 5000 : 0);
+  let stopping: Promise<void> | undefined;
+
+  const stop = () =>
+    (stopping ??= (async () => {
+      unwatchSignals(stop);
+      shuttingDown = true;
+
+      // Keep accepting requests until the failing readiness probe has been noticed
+      if (shutdownDelay > 0) await new Promise((resolve) => setTimeout(resolve, shutdownDelay));
+
+      // Stop accepting connections and let in-flight requests finish, closing them after the timeout
+      const draining = app.stop(false);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const drained = await Promise.race([
+        draining.then(() => true),
+        new Promise<boolean>((resolve) => {
+          timer = setTimeout(() => resolve(false), shutdownTimeout);
+        }),
+      ]);
+      clearTimeout(timer);
+
+      if (!drained) {
+        console.warn(`Requests still in flight after ${shutdownTimeout}ms, closing their connections`);
+        server.stop(true);
+        await draining;
+      }
+
+      await options.onShutdown?.();
+      if (logFile) await new Promise((resolve) => logFile.end(resolve));
+    })());
+
+  if (options.handleSignals ?? true) watchSignals(stop);
+
+  const handle: ServerHandle = { server, url, stop };
+
+  if (options.onStart) {
+    Promise.resolve()
+      .then(() => options.onStart!(handle))
+      .then(() => {
+        started = true;
+      })
+      .catch((error) => {
+        console.error("onStart hook failed:", error);
+        process.exit(1);
+      });
+  }
 
-  console.log(`Production server running at http://localhost:${port}`);
+  return handle;
 };
@@ -0,0 +1,88 @@
+/**
+ * Placeholder in the HTML template replaced with the rendered app markup.
+ */
+export const SSR_HTML_OUTLET = "<!--app-html-->";
+
+/**
+ * Placeholder in the HTML template replaced with the rendered `head` markup.
+ */
+export const SSR_HEAD_OUTLET = "<!--app-head-->";
+
+type ApiHandler = { handle: (request: Request) => Promise<Response> };
+
+/**
+ * Context passed to the `render` function of an SSR entry.
+ */
+export interface SsrContext {
+  /** The page request being rendered. */
+  request: Request;
+  /**
+   * The Elysia API app, e.g. for `treaty(api)` from `@elysiajs/eden`, which then
+   * calls routes in-process. With several API modules, this is the first one.
+   */
+  api: ApiHandler | undefined;
+  /**
+   * Calls an API route in-process, without a network round trip. Relative URLs are
+   * resolved against the page request.
+   */
+  fetch: (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+  /**
+   * The CSP nonce of this response when `securityHeaders.contentSecurityPolicy` uses `{nonce}`.
+   * Only the template's tags receive it automatically; add it to tags in the rendered markup
+   * that should run, e.g. `<script nonce={nonce}>`.
+   */
+  nonce?: string;
+}
+
+/**
+ * What `render` may return: the app markup, markup with extra head tags, a status and
+ * headers, or a complete `Response` (e.g. a redirect) that is sent as-is.
+ */
+export type SsrResult =
+  | string
+  | Response
+  | { html: string; head?: string; status?: number; headers?: Record<string, string> };
+
+/**
+ * An SSR entry module, e.g. `src/entry-server.tsx`.
+ */
+export interface SsrModule {
+  render: (url: string, context: SsrContext) => SsrResult | Promise<SsrResult>;
+}
+
+/**
+ * Creates the in-process `fetch` of an {@link SsrContext}. `resolveApi` picks the API
+ * module for a pathname; requests no module handles receive a 404.
+ */
+export function createApiFetch(
+  request: Request,
+  resolveApi: (pathname: string) => ApiHandler | undefined
+): SsrContext["fetch"] {
+  return async (input, init) => {
+    const apiRequest =
+      input instanceof Request ? new Request(input, init) : new Request(new URL(input, request.url).href, init);
+
+    const api = resolveApi(new URL(apiRequest.url).pathname);
+    if (!api) return new Response("Not Found", { status: 404 });
+    return api.handle(apiRequest);
+  };
+}
+
+/**
+ * Renders a page with an SSR entry and fills the outlets of the HTML `template`.
+ */
+export async function renderPage(ssr: SsrModule, template: string, context: SsrContext): Promise<Response> {
+  const url = new URL(context.request.url);
+  const result = await ssr.render(url.pathname + url.search, context);
+  if (result instanceof Response) return result;
+
+  const { html, head = "", status = 200, headers = {} } = typeof result === "string" ? { html: result } : result;
+
+  // Replacer functions, so "$" sequences in the markup are inserted literally
+  const page = template.replace(SSR_HEAD_OUTLET, () => head).replace(SSR_HTML_OUTLET, () => html);
+
+  return new Response(page, {
+    status,
+    headers: { "Content-Type": "text/html; charset=utf-8", ...headers },
+  });
+}
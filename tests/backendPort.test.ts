@@ -0,0 +1,86 @@
+import { createServer, type Server } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import elysiaPlugin from "../src/index";
+
+const originalConsoleLog = console.log;
+
+const serveEnv = { command: "serve", mode: "development" };
+
+describe("backendPort", () => {
+  let blocker: Server | undefined;
+
+  beforeEach(() => {
+    console.log = mock();
+  });
+
+  afterEach(async () => {
+    console.log = originalConsoleLog;
+    if (!blocker) return;
+    const closing = blocker;
+    blocker = undefined;
+    await new Promise((resolve) => closing.close(resolve));
+  });
+
+  it('picks a free port with "auto" and points every proxy entry at it', async () => {
+    const plugin = elysiaPlugin({
+      ws: true,
+      wsMode: "process",
+      backendPort: "auto",
+      mounts: [
+        { serverFile: "/server/api.ts", prefix: "/api" },
+        { serverFile: "/server/admin.ts", prefix: "/admin" },
+      ],
+    });
+
+    const config = await (plugin.config as any)({}, serveEnv);
+    const apiTarget: string = config.server.proxy["/api"].target;
+    const port = Number(apiTarget.split(":").pop());
+
+    expect(port).toBeGreaterThan(0);
+    expect(config.server.proxy["/admin"].target).toBe(apiTarget);
+    expect(console.log).toHaveBeenCalledWith(`API server will listen on port ${port}`);
+  });
+
+  it("fails with a clear message when an explicit port is taken", async () => {
+    blocker = createServer();
+    await new Promise<void>((resolve) => blocker!.listen(0, resolve));
+    const port = (blocker.address() as { port: number }).port;
+
+    const plugin = elysiaPlugin({ ws: true, wsMode: "process", backendPort: port });
+
+    await expect((plugin.config as any)({}, serveEnv)).rejects.toThrow(
+      `Port ${port} for the API server is already in use`
+    );
+  });
+
+  it("keeps the port of the backend it replaces when Vite restarts", async () => {
+    blocker = createServer();
+    await new Promise<void>((resolve) => blocker!.listen(0, resolve));
+    const port = (blocker.address() as { port: number }).port;
+    await new Promise((resolve) => blocker!.close(resolve));
+    blocker = undefined;
+
+    const options = { ws: true, wsMode: "process" as const, backendPort: port };
+    const root = "/tmp/vef-restart";
+    const first = await (elysiaPlugin(options).config as any)({ root }, serveEnv);
+
+    // The backend of the first server still listens while the restarted one is configured
+    blocker = createServer();
+    await new Promise<void>((resolve) => blocker!.listen(port, resolve));
+
+    const restarted = await (elysiaPlugin(options).config as any)({ root }, serveEnv);
+    expect(restarted.server.proxy["/api"].target).toBe(first.server.proxy["/api"].target);
+
+    // Another project gets the conflict check
+    await expect((elysiaPlugin(options).config as any)({ root: "/tmp/vef-other" }, serveEnv)).rejects.toThrow(
+      `Port ${port} for the API server is already in use`
+    );
+  });
+
+  it("does not probe ports during vite build", async () => {
+    const plugin = elysiaPlugin({ ws: true, wsMode: "process", backendPort: "auto" });
+
+    expect(await (plugin.config as any)({}, { command: "build", mode: "production" })).toBeUndefined();
+    expect(console.log).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { createServer } from "node:net";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import elysiaPlugin from "../src/index";
+
+type Middleware = (req: any, res: any, next: () => void) => Promise<void> | void;
+
+const originalConsoleError = console.error;
+
+async function getFreePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, "127.0.0.1", resolve));
+  const port = (probe.address() as { port: number }).port;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+function createProject(apiSource: string) {
+  const root = mkdtempSync(join(tmpdir(), "vef-ready-"));
+  mkdirSync(join(root, "src", "server"), { recursive: true });
+  writeFileSync(join(root, "src", "server", "api.ts"), apiSource);
+  return root;
+}
+
+function createDevServerMocks(root: string) {
+  const middlewares: Middleware[] = [];
+  const closeHandlers: Array<() => void> = [];
+
+  const server = {
+    config: { root },
+    watcher: {
+      add: mock(),
+      on: mock(),
+    },
+    moduleGraph: {
+      getModuleByUrl: mock(),
+      getModulesByFile: mock(),
+      invalidateModule: mock(),
+    },
+    ssrLoadModule: mock(async () => ({ api: { handle: mock() } })),
+    middlewares: {
+      use: mock((mw: Middleware) => {
+        middlewares.push(mw);
+      }),
+    },
+    httpServer: {
+      once: mock((event: string, cb: () => void) => {
+        if (event === "close") closeHandlers.push(cb);
+      }),
+    },
+  };
+
+  return { server, middlewares, close: () => closeHandlers.forEach((cb) => cb()) };
+}
+
+async function runGate(mw: Middleware, url: string) {
+  const res: any = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    setHeader(key: string, value: string) {
+      res.headers[key] = value;
+    },
+    end(body?: string) {
+      res.body = body;
+    },
+  };
+  const next = mock();
+
+  await mw({ url, method: "GET", headers: {} }, res, next);
+
+  return { status: res.statusCode, body: res.body, headers: res.headers, nextCalled: next.mock.calls.length };
+}
+
+describe("ws process mode readiness", () => {
+  let root: string | undefined;
+  let close: (() => void) | undefined;
+
+  beforeEach(() => {
+    console.error = mock();
+  });
+
+  afterEach(() => {
+    close?.();
+    close = undefined;
+    if (root) rmSync(root, { recursive: true, force: true });
+    root = undefined;
+    console.error = originalConsoleError;
+  });
+
+  it("holds API requests until the backend accepts connections", async () => {
+    const port = await getFreePort();
+    root = createProject(`
+export const api = {
+  listen(port: number) {
+    setTimeout(() => Bun.serve({ port, fetch: () => new Response("ok") }), 300);
+  },
+};
+`);
+
+    const mocks = createDevServerMocks(root);
+    close = mocks.close;
+
+    const plugin = elysiaPlugin({ ws: true, wsMode: "process", backendPort: port });
+    await (plugin.configureServer as any)(mocks.server);
+
+    const gate = mocks.middlewares[0]!;
+    const passthrough = await runGate(gate, "/index.html");
+    expect(passthrough.nextCalled).toBe(1);
+
+    const started = Date.now();
+    const result = await runGate(gate, "/api/ping");
+
+    expect(result.nextCalled).toBe(1);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(200);
+
+    const response = await fetch(`http://127.0.0.1:${port}/`);
+    expect(await response.text()).toBe("ok");
+  }, 15000);
+
+  it("answers 503 and logs when the backend never becomes ready", async () => {
+    const port = await getFreePort();
+    root = createProject(`
+export const api = {
+  listen() {
+    setInterval(() => {}, 1000);
+  },
+};
+`);
+
+    const mocks = createDevServerMocks(root);
+    close = mocks.close;
+
+    const plugin = elysiaPlugin({ ws: true, wsMode: "process", backendPort: port, backendReadyTimeout: 300 });
+    await (plugin.configureServer as any)(mocks.server);
+
+    const result = await runGate(mocks.middlewares[0]!, "/api/ping");
+
+    expect(result.status).toBe(503);
+    expect(result.headers["Retry-After"]).toBe("1");
+    expect(result.nextCalled).toBe(0);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining(`port ${port} within 300ms`));
+  }, 15000);
+});
@@ -45,12 +45,19 @@ async function runMiddlewareWithBody(mw: Middleware, url: string, method: string
   const res: any = {
     statusCode: 200,
     headers: {} as Record<string, string>,
+    chunks: [] as Buffer[],
     setHeader(key: string, value: string) {
       res.headers[key] = value;
     },
+    write(chunk: Uint8Array) {
+      res.chunks.push(Buffer.from(chunk));
+      return true;
+    },
     end(body?: string) {
-      res.body = body;
+      res.body = body ?? Buffer.concat(res.chunks).toString();
     },
+    once: mock(),
+    off: mock(),
   };
   const next = mock();
 
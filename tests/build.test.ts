@@ -0,0 +1,36 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { build, type Options } from "tsup";
+import configs from "../tsup.config";
+
+describe("package build", () => {
+  let outDir: string;
+
+  beforeAll(async () => {
+    outDir = mkdtempSync(join(tmpdir(), "vef-build-"));
+    // Declarations are left to `tsc`, which checks the same sources much faster
+    for (const config of configs as Options[]) {
+      await build({ ...config, config: false, dts: false, outDir, silent: true });
+    }
+  }, 60_000);
+
+  afterAll(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  const read = (name: string) => readFileSync(join(outDir, name), "utf8");
+
+  it("bundles every entry of the package", () => {
+    for (const file of ["index.js", "index.cjs", "config.js", "config.cjs", "production.js", "cli.js"]) {
+      expect(read(file).length).toBeGreaterThan(0);
+    }
+  });
+
+  it("imports Vite and Elysia from the project instead of bundling them", () => {
+    expect(read("index.js")).toMatch(/import\(\s*["']vite["']\s*\)/);
+    expect(read("index.js")).toMatch(/import\(\s*["']elysia["']\s*\)/);
+    expect(read("production.js")).toMatch(/from\s*["']elysia["']/);
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, expect, it, mock, spyOn, afterEach, beforeEach } from "bun:test";
-import { build, buildCompile } from "../src/cli";
+import { build, buildCompile, generateOpenApi } from "../src/cli";
 import * as fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import * as child_process from "node:child_process";
 
 // Mocking globals
@@ -63,6 +65,9 @@ describe("CLI build", () => {
     expect(writeArgs[0]).toContain(".output");
     expect(writeArgs[0]).toContain(".temp-prod.ts");
     expect(writeArgs[1]).toContain('import { startServer } from "vite-elysia-forge/production"');
+    expect(writeArgs[1]).toContain("hostname: process.env.HOST");
+    expect(writeArgs[1]).toContain("cert: process.env.TLS_CERT");
+    expect(writeArgs[1]).toContain("contentSecurityPolicy: process.env.CONTENT_SECURITY_POLICY");
 
     // Verify Bun.build uses the temp file
     expect(bunBuildMock).toHaveBeenCalled();
@@ -135,6 +140,301 @@ describe("CLI build", () => {
     expect(rmArgs[0]).toContain(".output");
     expect(rmArgs[1]).toEqual({ recursive: true, force: true });
   });
+
+  it("passes source map, external, define, minify and splitting options to Bun.build", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+    spyOn(fs, "writeFileSync").mockImplementation(() => {});
+    spyOn(fs, "unlinkSync").mockImplementation(() => {});
+    spyOn(fs, "rmSync").mockImplementation(() => {});
+    spyOn(child_process, "spawnSync").mockImplementation(mock(() => ({ status: 0 }) as any));
+
+    const bunBuildMock = mock(async () => ({ success: true, logs: [] }) as any);
+    Bun.build = bunBuildMock;
+
+    await build({ apiEntry: "src/server/api.ts" });
+    expect((bunBuildMock.mock.calls[0] as any)[0]).toMatchObject({ minify: true, sourcemap: "none", splitting: false });
+
+    await build({
+      apiEntry: "src/server/api.ts",
+      sourcemap: "external",
+      external: ["better-sqlite3"],
+      define: { "process.env.BUILD_ID": '"a1b2c3"' },
+      minify: false,
+      splitting: true,
+    });
+    expect((bunBuildMock.mock.calls[1] as any)[0]).toMatchObject({
+      minify: false,
+      sourcemap: "external",
+      external: ["better-sqlite3"],
+      define: { "process.env.BUILD_ID": '"a1b2c3"' },
+      splitting: true,
+      naming: { entry: "server.js", chunk: "server-chunks/[name]-[hash].[ext]" },
+    });
+  });
+
+  it("rejects unknown source map modes", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+
+    await expect(build({ apiEntry: "src/server/api.ts", sourcemap: "linked" as any })).rejects.toThrow(
+      "Process exited with code 1"
+    );
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Unknown source map mode "linked"'));
+  });
+
+  it("composes several mounted API entries into one server entry", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+    const writeFileSyncMock = spyOn(fs, "writeFileSync").mockImplementation(() => {});
+    spyOn(fs, "unlinkSync").mockImplementation(() => {});
+    spyOn(fs, "rmSync").mockImplementation(() => {});
+
+    const spawnSyncMock = mock(() => ({ status: 0 }) as any);
+    spyOn(child_process, "spawnSync").mockImplementation(spawnSyncMock);
+
+    const bunBuildMock = mock(async () => ({ success: true, logs: [] }) as any);
+    Bun.build = bunBuildMock;
+
+    await build({
+      mounts: [
+        { apiEntry: "src/server/api.ts", prefix: "/api" },
+        { apiEntry: "src/server/admin.ts", prefix: "/admin" },
+      ],
+    });
+
+    const content = (writeFileSyncMock.mock.calls[0] as any[])[1] as string;
+    expect(content).toContain('import * as apiModule0 from "../src/server/api.ts"');
+    expect(content).toContain('import * as apiModule1 from "../src/server/admin.ts"');
+    expect(content).toContain("api: new Elysia().use(apiModule0.api).use(apiModule1.api)");
+    expect(content).toContain('apiPrefix: ["/api","/admin"]');
+  });
+
+  it("hides the OpenAPI document from the static files only when the build writes it next to them", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+    const writeFileSyncMock = spyOn(fs, "writeFileSync").mockImplementation(() => {});
+    spyOn(fs, "unlinkSync").mockImplementation(() => {});
+    spyOn(fs, "rmSync").mockImplementation(() => {});
+    spyOn(child_process, "spawnSync").mockImplementation(mock(() => ({ status: 0 }) as any));
+    Bun.build = mock(async () => ({ success: true, logs: [] }) as any);
+    const serverEntries = () =>
+      writeFileSyncMock.mock.calls
+        .filter(([file]) => String(file).endsWith(".temp-prod.ts"))
+        .map(([, content]) => content);
+
+    await build({ apiEntry: "src/server/api.ts" });
+    // The entry does not exist, so writing the document itself fails after the server is built
+    await expect(build({ apiEntry: "src/server/api.ts", openapi: true })).rejects.toThrow("Process exited with code 1");
+    await expect(
+      build({ apiEntry: "src/server/api.ts", serverDir: ".output", openapi: true })
+    ).rejects.toThrow("Process exited with code 1");
+
+    const [plain, shared, separate] = serverEntries();
+    expect(plain).not.toContain("hiddenFiles");
+    expect(shared).toContain('hiddenFiles: ["openapi.json"],');
+    expect(separate).not.toContain("hiddenFiles");
+  });
+
+  it("builds the SSR entry with vite and bundles it into the server entry", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+    const writeFileSyncMock = spyOn(fs, "writeFileSync").mockImplementation(() => {});
+    spyOn(fs, "unlinkSync").mockImplementation(() => {});
+    spyOn(fs, "rmSync").mockImplementation(() => {});
+
+    const spawnSyncMock = mock(() => ({ status: 0 }) as any);
+    spyOn(child_process, "spawnSync").mockImplementation(spawnSyncMock);
+
+    Bun.build = mock(async () => ({ success: true, logs: [] }) as any);
+
+    await build({ apiEntry: "src/server/api.ts", ssrEntry: "src/entry-server.tsx" });
+
+    const ssrArgs = (spawnSyncMock.mock.calls[1] as any)[1] as string[];
+    expect(ssrArgs).toEqual(expect.arrayContaining(["vite", "build", "--ssr", "src/entry-server.tsx"]));
+    expect(ssrArgs[ssrArgs.indexOf("--outDir") + 1]).toContain(join(".output", "ssr"));
+
+    const content = (writeFileSyncMock.mock.calls[0] as any[])[1] as string;
+    expect(content).toContain('import * as ssr from "./ssr/entry-server.js"');
+    expect(content).toContain("  ssr,");
+  });
+
+  it("fails if the SSR build fails", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+    spyOn(fs, "rmSync").mockImplementation(() => {});
+    const statuses = [0, 1];
+    spyOn(child_process, "spawnSync").mockImplementation((() => ({ status: statuses.shift() })) as any);
+
+    try {
+      await build({ ssrEntry: "src/entry-server.tsx" });
+    } catch (e: any) {
+      expect(e.message).toBe("Process exited with code 1");
+    }
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("SSR build failed"));
+  });
+
+  it("fails if any mounted API entry does not exist", async () => {
+    spyOn(fs, "existsSync").mockImplementation(((path: string) => !String(path).endsWith("admin.ts")) as any);
+
+    try {
+      await build({
+        mounts: [
+          { apiEntry: "src/server/api.ts", prefix: "/api" },
+          { apiEntry: "src/server/admin.ts", prefix: "/admin" },
+        ],
+      });
+    } catch (e: any) {
+      expect(e.message).toBe("Process exited with code 1");
+    }
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('"src/server/admin.ts" not found'));
+  });
+
+  it("reads the project config file, with options taking precedence", async () => {
+    const cwd = process.cwd();
+    const root = fs.mkdtempSync(join(tmpdir(), "vef-cli-config-"));
+    fs.writeFileSync(
+      join(root, "vite-elysia-forge.config.ts"),
+      `export default {
+        apiEntry: "server/main.ts",
+        apiPrefix: "/v1",
+        build: { staticDir: "public", serverDir: "out" },
+      };`
+    );
+
+    try {
+      process.chdir(root);
+      spyOn(fs, "existsSync").mockReturnValue(true);
+      const writeFileSyncMock = spyOn(fs, "writeFileSync").mockImplementation(() => {});
+      spyOn(fs, "unlinkSync").mockImplementation(() => {});
+      spyOn(fs, "rmSync").mockImplementation(() => {});
+
+      const spawnSyncMock = mock(() => ({ status: 0 }) as any);
+      spyOn(child_process, "spawnSync").mockImplementation(spawnSyncMock);
+
+      const bunBuildMock = mock(async () => ({ success: true, logs: [] }) as any);
+      Bun.build = bunBuildMock;
+
+      await build({ serverDir: "server-out" });
+
+      const viteArgs = (spawnSyncMock.mock.calls[0] as any)[1] as string[];
+      expect(viteArgs[viteArgs.indexOf("--outDir") + 1]).toBe("public");
+      expect((bunBuildMock.mock.calls[0] as any)[0].outdir).toBe("server-out");
+
+      const content = (writeFileSyncMock.mock.calls[0] as any[])[1] as string;
+      expect(content).toContain('import forgeConfig from "../vite-elysia-forge.config.ts"');
+      expect(content).toContain('import * as apiModule0 from "../server/main.ts"');
+      expect(content).toContain('apiPrefix: "/v1"');
+      expect(content).toContain("port: process.env.PORT ? parseInt(process.env.PORT) : (serverConfig.port ?? 3000)");
+    } finally {
+      process.chdir(cwd);
+      mock.restore();
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("CLI build --compress", () => {
+  let staticDir: string;
+
+  beforeEach(() => {
+    console.log = mock();
+    console.error = mock();
+    staticDir = fs.mkdtempSync(join(tmpdir(), "vef-static-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(staticDir, { recursive: true, force: true });
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+  });
+
+  it("writes .br and .gz siblings for compressible static files", async () => {
+    fs.mkdirSync(join(staticDir, "assets"));
+    fs.writeFileSync(join(staticDir, "index.html"), "<p>hello</p>".repeat(200));
+    fs.writeFileSync(join(staticDir, "assets", "app.js"), "console.log(1);".repeat(200));
+    fs.writeFileSync(join(staticDir, "assets", "logo.png"), Buffer.alloc(4096));
+    fs.writeFileSync(join(staticDir, "tiny.css"), "a{}");
+
+    await build({ staticDir, skipVite: true, skipServer: true, compress: true });
+
+    expect(fs.existsSync(join(staticDir, "index.html.br"))).toBe(true);
+    expect(fs.existsSync(join(staticDir, "index.html.gz"))).toBe(true);
+    expect(fs.existsSync(join(staticDir, "assets", "app.js.br"))).toBe(true);
+    expect(fs.existsSync(join(staticDir, "assets", "logo.png.gz"))).toBe(false);
+    expect(fs.existsSync(join(staticDir, "tiny.css.gz"))).toBe(false);
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining("Precompressed 2 static files"));
+  });
+});
+
+describe("CLI build manifest", () => {
+  let staticDir: string;
+
+  beforeEach(() => {
+    console.log = mock();
+    console.error = mock();
+    // @ts-ignore
+    process.exit = mock((code?: number) => {
+      throw new Error(`Process exited with code ${code}`);
+    });
+    staticDir = fs.mkdtempSync(join(tmpdir(), "vef-manifest-"));
+    fs.mkdirSync(join(staticDir, "assets"));
+    fs.writeFileSync(join(staticDir, "index.html"), "<p>hello</p>");
+    fs.writeFileSync(join(staticDir, "assets", "app.js"), "console.log(1);".repeat(100));
+  });
+
+  afterEach(() => {
+    fs.rmSync(staticDir, { recursive: true, force: true });
+    process.exit = originalProcessExit;
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+  });
+
+  it("writes the manifest next to the server bundle and prints a size summary", async () => {
+    await build({ staticDir, skipVite: true, skipServer: true, apiPrefix: "/v1" });
+
+    const manifest = JSON.parse(fs.readFileSync(join(staticDir, "build-manifest.json"), "utf8"));
+    expect(manifest.api).toEqual([{ entry: "src/server/api.ts", prefix: "/v1" }]);
+    expect(manifest.server).toBeNull();
+    expect(manifest.static.size).toBe(1512);
+    expect(manifest.static.files).toEqual([
+      { path: "assets/app.js", size: 1500, hash: expect.stringMatching(/^[0-9a-f]{64}$/) },
+      { path: "index.html", size: 12, hash: expect.stringMatching(/^[0-9a-f]{64}$/) },
+    ]);
+    expect(manifest.timings.total).toBeGreaterThanOrEqual(0);
+
+    const summary = (console.log as any).mock.calls.map((call: any[]) => call[0]).join("\n");
+    expect(summary).toContain("Build summary");
+    expect(summary).toMatch(/assets\/app\.js +1\.5 KB/);
+    expect(summary).toMatch(/2 static files +1\.5 KB/);
+  });
+
+  it("prints only the manifest on stdout with json", async () => {
+    await build({ staticDir, skipVite: true, skipServer: true, json: true });
+
+    expect(console.log).toHaveBeenCalledTimes(1);
+    const manifest = JSON.parse((console.log as any).mock.calls[0][0]);
+    expect(manifest.static.files).toHaveLength(2);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Skipping server build"));
+  });
+
+  it("fails when a static chunk exceeds the size budget", async () => {
+    await expect(build({ staticDir, skipVite: true, skipServer: true, budget: { chunk: "1kb" } })).rejects.toThrow(
+      "Process exited with code 1"
+    );
+
+    const manifest = JSON.parse(fs.readFileSync(join(staticDir, "build-manifest.json"), "utf8"));
+    expect(manifest.budget).toEqual({
+      chunk: 1024,
+      exceeded: [{ path: `${manifest.static.dir}/assets/app.js`, size: 1500, limit: 1024 }],
+    });
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("assets/app.js: 1.5 KB (budget 1.0 KB)"));
+  });
+
+  it("rejects an invalid budget before building", async () => {
+    await expect(build({ staticDir, skipVite: true, skipServer: true, budget: { server: "big" } })).rejects.toThrow(
+      "Process exited with code 1"
+    );
+
+    expect(fs.existsSync(join(staticDir, "build-manifest.json"))).toBe(false);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid server size budget "big"'));
+  });
 });
 
 describe("CLI build-compile", () => {
@@ -210,4 +510,207 @@ describe("CLI build-compile", () => {
     expect(spawnSyncSpy).toHaveBeenCalledTimes(2);
     expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Bun compile failed"));
   });
+
+  it("compiles one binary per target", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+    spyOn(fs, "writeFileSync").mockImplementation(() => {});
+    spyOn(fs, "unlinkSync").mockImplementation(() => {});
+    spyOn(fs, "rmSync").mockImplementation(() => {});
+
+    const spawnSyncMock = mock(() => ({ status: 0 }) as any);
+    spyOn(child_process, "spawnSync").mockImplementation(spawnSyncMock);
+    Bun.build = mock(async () => ({ success: true, logs: [] }) as any);
+
+    await buildCompile({ apiEntry: "src/server/api.ts", targets: ["bun-linux-arm64", "bun-windows-x64"] });
+
+    expect(spawnSyncMock).toHaveBeenCalledTimes(3);
+    const linuxArgs = (spawnSyncMock.mock.calls[1] as any)[1] as string[];
+    expect(linuxArgs[4]).toEndWith("dist/server-linux-arm64");
+    expect(linuxArgs.slice(5)).toEqual(["--target", "bun-linux-arm64"]);
+    const windowsArgs = (spawnSyncMock.mock.calls[2] as any)[1] as string[];
+    expect(windowsArgs[4]).toEndWith("dist/server-windows-x64.exe");
+  });
+
+  it("compiles from the server entry with the bundle options when source maps are enabled", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+    spyOn(fs, "writeFileSync").mockImplementation(() => {});
+    spyOn(fs, "unlinkSync").mockImplementation(() => {});
+    spyOn(fs, "rmSync").mockImplementation(() => {});
+
+    const spawnSyncMock = mock(() => ({ status: 0 }) as any);
+    spyOn(child_process, "spawnSync").mockImplementation(spawnSyncMock);
+    Bun.build = mock(async () => ({ success: true, logs: [] }) as any);
+
+    await buildCompile({ apiEntry: "src/server/api.ts", external: ["sharp"] });
+    expect(((spawnSyncMock.mock.calls[1] as any)[1] as string[]).slice(2)).toEqual([
+      expect.stringMatching(/dist\/server\.js$/),
+      "--outfile",
+      expect.stringMatching(/dist\/server$/),
+      "--external",
+      "sharp",
+    ]);
+
+    await buildCompile({ apiEntry: "src/server/api.ts", sourcemap: "external", define: { DEBUG: "false" } });
+    expect(((spawnSyncMock.mock.calls[3] as any)[1] as string[]).slice(2)).toEqual([
+      expect.stringMatching(/\.output[\\/]\.temp-prod\.ts$/),
+      "--outfile",
+      expect.stringMatching(/dist\/server$/),
+      "--minify",
+      "--sourcemap",
+      "--define",
+      "DEBUG=false",
+    ]);
+  });
+
+  it("rejects unknown targets before building", async () => {
+    spyOn(fs, "existsSync").mockReturnValue(true);
+    const spawnSyncMock = mock(() => ({ status: 0 }) as any);
+    spyOn(child_process, "spawnSync").mockImplementation(spawnSyncMock);
+
+    await expect(buildCompile({ apiEntry: "src/server/api.ts", targets: ["linux-x64"] })).rejects.toThrow(
+      "Process exited with code 1"
+    );
+
+    expect(spawnSyncMock).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Unknown compile target "linux-x64"'));
+  });
+
+  it("embeds the static files into the binary with --embed-static", async () => {
+    const cwd = process.cwd();
+    const root = fs.mkdtempSync(join(tmpdir(), "vef-cli-embed-"));
+    fs.mkdirSync(join(root, "dist", "assets"), { recursive: true });
+    fs.writeFileSync(join(root, "dist", "index.html"), "<p>hello</p>");
+    fs.writeFileSync(join(root, "dist", "assets", "app.js"), "console.log(1);");
+    fs.writeFileSync(join(root, "dist", "server.js"), "// previous server bundle");
+
+    try {
+      process.chdir(root);
+      spyOn(fs, "existsSync").mockReturnValue(true);
+      const writeFileSyncMock = spyOn(fs, "writeFileSync").mockImplementation(() => {});
+      spyOn(fs, "unlinkSync").mockImplementation(() => {});
+      spyOn(fs, "rmSync").mockImplementation(() => {});
+
+      const spawnSyncMock = mock(() => ({ status: 0 }) as any);
+      spyOn(child_process, "spawnSync").mockImplementation(spawnSyncMock);
+      Bun.build = mock(async () => ({ success: true, logs: [] }) as any);
+
+      await buildCompile({ apiEntry: "src/server/api.ts", embedStatic: true });
+
+      const [entryFile, content] = writeFileSyncMock.mock.calls[1] as any[];
+      expect(entryFile).toEndWith(".temp-embed.ts");
+      expect(content).toContain('import asset0 from "../dist/assets/app.js" with { type: "file" };');
+      expect(content).toContain('import asset1 from "../dist/index.html" with { type: "file" };');
+      expect(content).toContain('assets: { "assets/app.js": asset0, "index.html": asset1 },');
+      expect(content).not.toContain("server.js");
+
+      const compileArgs = (spawnSyncMock.mock.calls[1] as any)[1] as string[];
+      expect(compileArgs[2]).toBe(entryFile);
+    } finally {
+      process.chdir(cwd);
+      mock.restore();
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("CLI openapi", () => {
+  let root: string;
+  const originalCwd = process.cwd();
+
+  beforeEach(() => {
+    console.log = mock();
+    console.error = mock();
+    // @ts-ignore
+    process.exit = mock((code?: number) => {
+      throw new Error(`Process exited with code ${code}`);
+    });
+    root = fs.mkdtempSync(join(tmpdir(), "vef-openapi-"));
+    process.chdir(root);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(root, { recursive: true, force: true });
+    process.exit = originalProcessExit;
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    mock.restore();
+  });
+
+  it("writes the document served by a mounted OpenAPI plugin", async () => {
+    fs.writeFileSync(
+      join(root, "api.ts"),
+      `export const api = {
+  routes: [
+    { method: "GET", path: "/api/users" },
+    { method: "GET", path: "/api/openapi/json" },
+  ],
+  handle: async (request: Request) =>
+    new URL(request.url).pathname === "/api/openapi/json"
+      ? Response.json({ openapi: "3.0.3", info: { title: "Users", version: "1.0.0" }, paths: { "/api/users": {} } })
+      : new Response("Not Found", { status: 404 }),
+};
+`
+    );
+
+    const outputPath = await generateOpenApi({ apiEntry: "api.ts", serverDir: "out" });
+
+    expect(outputPath).toEndWith(join("out", "openapi.json"));
+    expect(JSON.parse(fs.readFileSync(outputPath, "utf8"))).toEqual({
+      openapi: "3.0.3",
+      info: { title: "Users", version: "1.0.0" },
+      paths: { "/api/users": {} },
+    });
+  });
+
+  it("falls back to the route table and merges mounted entries", async () => {
+    fs.writeFileSync(
+      join(root, "public.ts"),
+      `export const api = {
+  routes: [
+    { method: "GET", path: "/api/users/:id", hooks: { detail: { summary: "Get a user" } } },
+    { method: "WS", path: "/api/ws" },
+  ],
+  handle: async () => new Response("Not Found", { status: 404 }),
+};
+`
+    );
+    fs.writeFileSync(
+      join(root, "admin.ts"),
+      `export const api = {
+  routes: [{ method: "POST", path: "/admin/reindex" }],
+  handle: async () => new Response("Not Found", { status: 404 }),
+};
+`
+    );
+
+    const outputPath = await generateOpenApi({
+      mounts: [
+        { apiEntry: "public.ts", prefix: "/api" },
+        { apiEntry: "admin.ts", prefix: "/admin" },
+      ],
+    });
+
+    expect(outputPath).toEndWith(join("dist", "openapi.json"));
+    const document = JSON.parse(fs.readFileSync(outputPath, "utf8"));
+    expect(Object.keys(document.paths)).toEqual(["/api/users/{id}", "/admin/reindex"]);
+    expect(document.paths["/api/users/{id}"].get).toEqual({
+      parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+      responses: { 200: { description: "OK" } },
+      summary: "Get a user",
+    });
+    expect(document.paths["/admin/reindex"].post).toBeDefined();
+  });
+
+  it("fails if the entry does not export an api", async () => {
+    fs.writeFileSync(join(root, "empty.ts"), "export const other = 1;\n");
+
+    try {
+      await generateOpenApi({ apiEntry: "empty.ts" });
+    } catch (e: any) {
+      expect(e.message).toBe("Process exited with code 1");
+    }
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Failed to generate OpenAPI document"));
+  });
 });
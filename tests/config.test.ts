@@ -0,0 +1,55 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { findConfigFile, loadConfig } from "../src/config";
+import elysiaPlugin from "../src/index";
+
+const serveEnv = { command: "serve", mode: "development" };
+
+describe("vite-elysia-forge.config.ts", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "vef-config-"));
+    writeFileSync(join(root, "package.json"), '{ "type": "module" }');
+    writeFileSync(
+      join(root, "vite-elysia-forge.config.ts"),
+      `export default {
+  apiEntry: "src/api/index.ts",
+  apiPrefix: "/v1",
+  ssrEntry: "src/entry-server.ts",
+  dev: { ws: true, wsMode: "process", backendPort: "auto" as const },
+  build: { staticDir: "public" },
+};
+`
+    );
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("is found in the project root and loaded", async () => {
+    expect(findConfigFile(root)).toBe(join(root, "vite-elysia-forge.config.ts"));
+    expect(findConfigFile(join(root, "src"))).toBeUndefined();
+
+    const loaded = await loadConfig(root);
+    expect(loaded?.config.build).toEqual({ staticDir: "public" });
+    expect(await loadConfig(join(root, "src"))).toBeUndefined();
+  });
+
+  it("configures the plugin, with the plugin's own options taking precedence", async () => {
+    const plugin: any = elysiaPlugin({ clientDts: false });
+    const config = await plugin.config({ root }, serveEnv);
+
+    expect(config.appType).toBe("custom");
+    expect(Object.keys(config.server.proxy)).toEqual(["/v1"]);
+
+    plugin.configResolved({ root });
+    expect(plugin.resolveId("virtual:elysia-client")).toBe("\0virtual:elysia-client");
+
+    const overridden: any = elysiaPlugin({ apiPrefix: "/api", ws: false });
+    expect(await overridden.config({ root }, serveEnv)).toEqual({ appType: "custom" });
+  });
+});
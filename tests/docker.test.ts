@@ -0,0 +1,128 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { docker } from "../src/docker";
+
+const originalProcessExit = process.exit;
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+
+describe("CLI docker", () => {
+  let root: string;
+
+  beforeEach(() => {
+    console.log = mock();
+    console.error = mock();
+    // @ts-ignore
+    process.exit = mock((code?: number) => {
+      throw new Error(`Process exited with code ${code}`);
+    });
+
+    root = mkdtempSync(join(tmpdir(), "vef-docker-"));
+    writeFileSync(join(root, "package.json"), JSON.stringify({ name: "app", type: "module" }));
+    writeFileSync(join(root, "bun.lock"), "");
+  });
+
+  afterEach(() => {
+    process.exit = originalProcessExit;
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const read = (name: string) => readFileSync(join(root, name), "utf8");
+
+  it("runs the bundled server on oven/bun", async () => {
+    await docker({ root });
+
+    const dockerfile = read("Dockerfile");
+    expect(dockerfile).toContain("FROM oven/bun:1 AS build");
+    expect(dockerfile).toContain("COPY package.json bun.lock ./\nRUN bun install --frozen-lockfile");
+    expect(dockerfile).toContain("RUN bun x vite-elysia-forge build\n");
+    expect(dockerfile).toContain("FROM oven/bun:1-slim AS runtime");
+    expect(dockerfile).toContain("PORT=3000 \\\n    STATIC_DIR=/app/dist");
+    expect(dockerfile).toContain("COPY --from=build /app/dist /app/dist\nUSER bun\nEXPOSE 3000");
+    expect(dockerfile).toContain('CMD ["bun","dist/server.js"]');
+    expect(dockerfile).not.toContain("HEALTHCHECK");
+
+    expect(read(".dockerignore").split("\n")).toEqual(expect.arrayContaining(["node_modules", "dist", ".output"]));
+  });
+
+  it("copies separate outputs and adds the configured health check", async () => {
+    writeFileSync(
+      join(root, "vite-elysia-forge.config.ts"),
+      `export default { server: { port: 8080, health: { livenessPath: "/live" } } };`
+    );
+
+    await docker({ root, staticDir: "public", serverDir: ".output" });
+
+    const dockerfile = read("Dockerfile");
+    expect(dockerfile).toContain("RUN bun x vite-elysia-forge build --static public --server .output");
+    expect(dockerfile).toContain("STATIC_DIR=/app/public");
+    expect(dockerfile).toContain("COPY --from=build /app/public /app/public\n");
+    expect(dockerfile).toContain("COPY --from=build /app/.output /app/.output\n");
+    expect(dockerfile).toContain("EXPOSE 8080");
+    expect(dockerfile).toContain("HEALTHCHECK --interval=30s");
+    expect(dockerfile).toContain('(process.env.PORT || 8080) + \\"/live\\")');
+    expect(dockerfile).toContain('CMD ["bun",".output/server.js"]');
+  });
+
+  it("runs a compiled binary on a distroless image", async () => {
+    writeFileSync(
+      join(root, "vite-elysia-forge.config.ts"),
+      `export default { build: { external: ["sharp"] }, server: { health: true } };`
+    );
+
+    await docker({ root, binary: true, embedStatic: true });
+
+    const dockerfile = read("Dockerfile");
+    expect(dockerfile).toContain("RUN bun x vite-elysia-forge build-compile --embed-static");
+    expect(dockerfile).toContain("FROM gcr.io/distroless/cc-debian12:nonroot AS runtime");
+    expect(dockerfile).toContain("COPY --from=build /app/dist/server /app/dist/server");
+    expect(dockerfile).toContain("RUN bun install --frozen-lockfile --production");
+    expect(dockerfile).toContain("COPY --from=deps /app/node_modules /app/node_modules");
+    expect(dockerfile).not.toContain("STATIC_DIR");
+    expect(dockerfile).not.toContain("USER bun");
+    expect(dockerfile).not.toContain("HEALTHCHECK --");
+    expect(dockerfile).toContain("probes at /healthz (liveness) and /readyz (readiness)");
+    expect(dockerfile).toContain('CMD ["/app/dist/server"]');
+  });
+
+  it("compiles and runs the Linux binary when the config sets build targets", async () => {
+    writeFileSync(
+      join(root, "vite-elysia-forge.config.ts"),
+      `export default { build: { targets: ["bun-darwin-arm64", "bun-linux-x64-musl", "bun-linux-arm64"] } };`
+    );
+
+    await docker({ root, binary: true, serverDir: ".output" });
+
+    const dockerfile = read("Dockerfile");
+    expect(dockerfile).toContain(
+      "RUN bun x vite-elysia-forge build-compile --server .output --target bun-linux-arm64\n"
+    );
+    expect(dockerfile).toContain("COPY --from=build /app/.output/server-linux-arm64 /app/.output/server-linux-arm64");
+    expect(dockerfile).toContain('CMD ["/app/.output/server-linux-arm64"]');
+  });
+
+  it("fails when no build target runs on the distroless image", async () => {
+    writeFileSync(
+      join(root, "vite-elysia-forge.config.ts"),
+      `export default { build: { targets: ["bun-windows-x64"] } };`
+    );
+
+    await expect(docker({ root, binary: true })).rejects.toThrow("Process exited with code 1");
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("bun-windows-x64"));
+  });
+
+  it("refuses to overwrite an existing Dockerfile without force", async () => {
+    writeFileSync(join(root, "Dockerfile"), "FROM scratch\n");
+
+    await expect(docker({ root })).rejects.toThrow("Process exited with code 1");
+    expect(read("Dockerfile")).toBe("FROM scratch\n");
+    expect(console.error).toHaveBeenCalledWith("   Dockerfile");
+
+    await docker({ root, force: true });
+    expect(read("Dockerfile")).toContain("FROM oven/bun:1 AS build");
+  });
+});
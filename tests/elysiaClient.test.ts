@@ -0,0 +1,81 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import elysiaPlugin from "../src/index";
+
+describe("virtual:elysia-client", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "vef-client-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("serves an Eden client scoped to the api prefix", () => {
+    const plugin: any = elysiaPlugin({ serverFile: "/server/api.ts", apiPrefix: "/v1/api" });
+    plugin.configResolved({ root });
+
+    const resolved = plugin.resolveId("virtual:elysia-client");
+    expect(resolved).toBe("\0virtual:elysia-client");
+    expect(plugin.resolveId("virtual:other")).toBeUndefined();
+
+    const code: string = plugin.load(resolved);
+    expect(code).toContain('import { treaty } from "@elysiajs/eden"');
+    expect(code).toContain('export const api = client["v1"]["api"];');
+    expect(code).not.toContain("server/api");
+  });
+
+  it("writes a declaration file typed from the server module", () => {
+    const plugin: any = elysiaPlugin({ serverFile: "/src/server/api.ts", clientDts: true });
+    plugin.configResolved({ root });
+
+    const dts = readFileSync(join(root, "elysia-client.d.ts"), "utf8");
+    expect(dts).toContain('declare module "virtual:elysia-client"');
+    expect(dts).toContain('type App = typeof import("./src/server/api").api;');
+    expect(dts).toContain('export const api: Treaty.Create<App>["api"];');
+  });
+
+  it("does not rewrite an unchanged declaration file", async () => {
+    const plugin: any = elysiaPlugin({ clientDts: "types/client.d.ts" });
+    plugin.configResolved({ root });
+
+    const dtsFile = join(root, "types", "client.d.ts");
+    const firstWrite = statSync(dtsFile).mtimeMs;
+    await Bun.sleep(10);
+    plugin.configResolved({ root });
+
+    expect(statSync(dtsFile).mtimeMs).toBe(firstWrite);
+    expect(readFileSync(dtsFile, "utf8")).toContain('typeof import("../src/server/api").api');
+  });
+
+  it("exposes one module per mount when several APIs are mounted", () => {
+    const plugin: any = elysiaPlugin({
+      mounts: [
+        { serverFile: "/server/api.ts", prefix: "/api" },
+        { serverFile: "/server/admin.ts", prefix: "/admin" },
+      ],
+      clientDts: true,
+    });
+    plugin.configResolved({ root });
+
+    expect(plugin.resolveId("virtual:elysia-client")).toBe("\0virtual:elysia-client");
+    expect(plugin.resolveId("virtual:elysia-client/admin")).toBe("\0virtual:elysia-client/admin");
+    expect(plugin.load("\0virtual:elysia-client/admin")).toContain('export const api = client["admin"];');
+
+    const dts = readFileSync(join(root, "elysia-client.d.ts"), "utf8");
+    expect(dts).toContain('declare module "virtual:elysia-client/admin"');
+    expect(dts).toContain('typeof import("./server/admin").api');
+  });
+
+  it("only writes the declaration file when clientDts is set", () => {
+    const plugin: any = elysiaPlugin();
+    plugin.configResolved({ root });
+
+    expect(existsSync(join(root, "elysia-client.d.ts"))).toBe(false);
+    expect(plugin.resolveId("virtual:elysia-client")).toBe("\0virtual:elysia-client");
+  });
+});
@@ -54,12 +54,19 @@ async function runMiddleware(mw: Middleware, url: string) {
   const res: any = {
     statusCode: 0,
     headers: {} as Record<string, string>,
+    chunks: [] as Buffer[],
     setHeader(key: string, value: string) {
       res.headers[key] = value;
     },
+    write(chunk: Uint8Array) {
+      res.chunks.push(Buffer.from(chunk));
+      return true;
+    },
     end(body?: string) {
-      res.body = body;
+      res.body = body ?? Buffer.concat(res.chunks).toString();
     },
+    once: mock(),
+    off: mock(),
   };
   const next = mock();
   const req: any = { url, method: "GET", headers: { host: "example.test" } };
@@ -203,4 +210,74 @@ describe("elysiaPlugin", () => {
     expect(next).toHaveBeenCalledTimes(1);
     expect(api.handle).not.toHaveBeenCalled();
   });
+
+  it("routes requests using a custom apiPrefix", async () => {
+    const { server, middlewares } = createDevServerMocks();
+
+    const api: ApiHandler = {
+      handle: mock(async () => new Response("rpc", { status: 200 })),
+    };
+
+    server.ssrLoadModule.mockResolvedValue({ api });
+
+    const plugin = elysiaPlugin({ serverFile: "/server/api.ts", apiPrefix: "/rpc" });
+    const configureServer = plugin.configureServer as typeof plugin.configureServer & ((server: any) => Promise<void>);
+    await configureServer(server as any);
+
+    const middleware = middlewares[0]!;
+
+    const handled = await runMiddleware(middleware, "/rpc/users?page=1");
+    const passedApi = await runMiddleware(middleware, "/api/users");
+    const passedSibling = await runMiddleware(middleware, "/rpcx");
+
+    expect(handled.body).toBe("rpc");
+    expect(handled.nextCalled).toBe(0);
+    expect(passedApi.nextCalled).toBe(1);
+    expect(passedSibling.nextCalled).toBe(1);
+    expect(api.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("routes and reloads several mounted API modules independently", async () => {
+    const { server, watchers, middlewares } = createDevServerMocks();
+
+    const publicApi: ApiHandler = { handle: mock(async () => new Response("public")) };
+    const adminV1: ApiHandler = { handle: mock(async () => new Response("admin v1")) };
+    const adminV2: ApiHandler = { handle: mock(async () => new Response("admin v2")) };
+
+    const modules: Record<string, ApiHandler[]> = {
+      "/server/api.ts": [publicApi],
+      "/server/admin.ts": [adminV1, adminV2],
+    };
+    server.ssrLoadModule.mockImplementation(async (url: string) => ({ api: modules[url]!.shift() }));
+
+    const publicModule = { id: "public-module", importers: new Set() };
+    const adminModule = { id: "admin-module", importers: new Set() };
+    server.moduleGraph.getModuleByUrl.mockImplementation(async (url: string) =>
+      url === "/server/admin.ts" ? adminModule : publicModule
+    );
+    server.moduleGraph.getModulesByFile.mockReturnValue(new Set([adminModule]));
+
+    const plugin = elysiaPlugin({
+      mounts: [
+        { serverFile: "/server/api.ts", prefix: "/api" },
+        { serverFile: "/server/admin.ts", prefix: "/admin" },
+      ],
+    });
+    const configureServer = plugin.configureServer as typeof plugin.configureServer & ((server: any) => Promise<void>);
+    await configureServer(server as any);
+
+    expect(server.watcher.add).toHaveBeenCalledWith("/tmp/app/server/api.ts");
+    expect(server.watcher.add).toHaveBeenCalledWith("/tmp/app/server/admin.ts");
+
+    const middleware = middlewares[0]!;
+
+    expect((await runMiddleware(middleware, "/api/ping")).body).toBe("public");
+    expect((await runMiddleware(middleware, "/admin/ping")).body).toBe("admin v1");
+
+    await watchers.change?.("/tmp/app/server/admin.ts");
+
+    expect(server.ssrLoadModule).toHaveBeenCalledTimes(3);
+    expect((await runMiddleware(middleware, "/api/ping")).body).toBe("public");
+    expect((await runMiddleware(middleware, "/admin/ping")).body).toBe("admin v2");
+  });
 });
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Elysia } from "elysia";
+import elysiaPlugin from "../src/index";
+
+type ApiHandler = { handle: (request: Request) => Promise<Response> };
+
+type Watchers = Record<string, (file: string) => Promise<void> | void>;
+
+type Middleware = (req: any, res: any, next: () => void) => Promise<void> | void;
+
+const originalConsoleError = console.error;
+
+function createDevServerMocks(root = "/tmp/app") {
+  const watchers: Watchers = {};
+  const middlewares: Middleware[] = [];
+
+  const server = {
+    config: { root },
+    watcher: {
+      add: mock(),
+      on: mock((event: string, cb: (file: string) => Promise<void> | void) => {
+        watchers[event] = cb;
+      }),
+    },
+    moduleGraph: {
+      getModuleByUrl: mock(),
+      getModulesByFile: mock(),
+      invalidateModule: mock(),
+    },
+    ssrLoadModule: mock(),
+    ssrFixStacktrace: mock((err: Error) => {
+      err.stack = `${err.name}: ${err.message}\n    at handler (/tmp/app/server/api.ts:4:11)`;
+    }),
+    ws: {
+      send: mock(),
+    },
+    middlewares: {
+      use: mock((mw: Middleware) => {
+        middlewares.push(mw);
+      }),
+    },
+  };
+
+  return { server, watchers, middlewares };
+}
+
+async function runMiddleware(mw: Middleware, url: string, accept?: string) {
+  const res: any = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    setHeader(key: string, value: string) {
+      res.headers[key] = value;
+    },
+    write(chunk: Uint8Array) {
+      res.body = (res.body ?? "") + new TextDecoder().decode(chunk);
+      return true;
+    },
+    end(body?: string) {
+      if (body !== undefined) res.body = body;
+    },
+    once: mock(),
+    off: mock(),
+  };
+  const headers: Record<string, string> = { host: "example.test" };
+  if (accept) headers.accept = accept;
+
+  await mw({ url, method: "GET", headers }, res, mock());
+
+  return { status: res.statusCode, body: res.body as string, headers: res.headers };
+}
+
+describe("error overlay", () => {
+  beforeEach(() => {
+    console.error = mock();
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+  });
+
+  it("sends handler exceptions to the overlay and returns a JSON error with the mapped stack", async () => {
+    const { server, middlewares } = createDevServerMocks();
+
+    const api = new Elysia({ prefix: "/api" }).get("/users", () => {
+      throw new Error("database exploded");
+    });
+    server.ssrLoadModule.mockResolvedValue({ api });
+
+    const plugin = elysiaPlugin({ serverFile: "/server/api.ts" });
+    await (plugin.configureServer as any)(server);
+
+    const result = await runMiddleware(middlewares[0]!, "/api/users");
+
+    expect(server.ssrFixStacktrace).toHaveBeenCalled();
+    expect(server.ws.send).toHaveBeenCalledWith({
+      type: "error",
+      err: {
+        message: "database exploded",
+        stack: "Error: database exploded\n    at handler (/tmp/app/server/api.ts:4:11)",
+        plugin: "vite-elysia-forge",
+      },
+    });
+
+    expect(result.status).toBe(500);
+    expect(result.headers["Content-Type"]).toBe("application/json");
+    expect(JSON.parse(result.body)).toEqual({
+      error: "Internal Server Error",
+      message: "database exploded",
+      stack: "Error: database exploded\n    at handler (/tmp/app/server/api.ts:4:11)",
+    });
+  });
+
+  it("renders an HTML error page for browser navigations", async () => {
+    const { server, middlewares } = createDevServerMocks();
+
+    const api = new Elysia({ prefix: "/api" }).get("/page", () => {
+      throw new Error("<b>bad</b>");
+    });
+    server.ssrLoadModule.mockResolvedValue({ api });
+
+    const plugin = elysiaPlugin({ serverFile: "/server/api.ts" });
+    await (plugin.configureServer as any)(server);
+
+    const result = await runMiddleware(middlewares[0]!, "/api/page", "text/html,application/xhtml+xml");
+
+    expect(result.status).toBe(500);
+    expect(result.headers["Content-Type"]).toBe("text/html; charset=utf-8");
+    expect(result.body).toContain("&lt;b&gt;bad&lt;/b&gt;");
+    expect(result.body).toContain("/tmp/app/server/api.ts:4:11");
+  });
+
+  it("leaves errors the app handles itself and Elysia's own errors alone", async () => {
+    const { server, middlewares } = createDevServerMocks();
+
+    const api = new Elysia({ prefix: "/api" })
+      .onError(({ error }) => {
+        if (error instanceof RangeError) return new Response("Out of range", { status: 422 });
+      })
+      .get("/range", () => {
+        throw new RangeError("too far");
+      });
+    server.ssrLoadModule.mockResolvedValue({ api });
+
+    const plugin = elysiaPlugin({ serverFile: "/server/api.ts" });
+    await (plugin.configureServer as any)(server);
+
+    const handled = await runMiddleware(middlewares[0]!, "/api/range");
+    const missing = await runMiddleware(middlewares[0]!, "/api/missing");
+
+    expect(handled.status).toBe(422);
+    expect(handled.body).toBe("Out of range");
+    expect(missing.status).toBe(404);
+    expect(server.ws.send).not.toHaveBeenCalled();
+  });
+
+  it("keeps 5xx responses of the app's own error hooks and still reports the error", async () => {
+    const { server, middlewares } = createDevServerMocks();
+
+    const api = new Elysia({ prefix: "/api" })
+      .onError(({ code, set }) => {
+        if (code === "UNKNOWN") {
+          set.status = 503;
+          return { code: "DB_DOWN" };
+        }
+      })
+      .get("/users", () => {
+        throw new Error("connection refused");
+      });
+    server.ssrLoadModule.mockResolvedValue({ api });
+
+    const plugin = elysiaPlugin({ serverFile: "/server/api.ts" });
+    await (plugin.configureServer as any)(server);
+
+    const result = await runMiddleware(middlewares[0]!, "/api/users");
+
+    expect(result.status).toBe(503);
+    expect(JSON.parse(result.body)).toEqual({ code: "DB_DOWN" });
+    expect(server.ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "error",
+        err: expect.objectContaining({ message: "connection refused" }),
+      })
+    );
+  });
+
+  it("reports API reload failures to the overlay", async () => {
+    const { server, watchers } = createDevServerMocks();
+
+    const api: ApiHandler = { handle: mock(async () => new Response("ok")) };
+    server.ssrLoadModule.mockResolvedValueOnce({ api }).mockRejectedValueOnce(new SyntaxError("Unexpected token"));
+
+    const entryModule = { id: "api-module", importers: new Set() };
+    server.moduleGraph.getModuleByUrl.mockResolvedValue(entryModule);
+    server.moduleGraph.getModulesByFile.mockReturnValue(new Set([entryModule]));
+
+    const plugin = elysiaPlugin({ serverFile: "/server/api.ts" });
+    await (plugin.configureServer as any)(server);
+
+    await watchers.change?.("/tmp/app/server/api.ts");
+
+    expect(server.ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "error",
+        err: expect.objectContaining({ message: "Unexpected token" }),
+      })
+    );
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("Failed to reload Elysia API"));
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { startServer } from "../src/production";
+
+const originalConsoleLog = console.log;
+
+describe("graceful shutdown", () => {
+  beforeEach(() => {
+    console.log = mock();
+  });
+
+  afterEach(() => {
+    console.log = originalConsoleLog;
+  });
+
+  it("fails readiness while still listening for shutdownDelay, then stops", async () => {
+    const handle = startServer({
+      api: null,
+      port: 0,
+      hostname: "127.0.0.1",
+      handleSignals: false,
+      health: true,
+      shutdownDelay: 200,
+    });
+    const readyz = `${handle.url}/readyz`;
+
+    expect((await fetch(readyz)).status).toBe(200);
+
+    const stopping = handle.stop();
+    const probe = await fetch(readyz);
+    expect(probe.status).toBe(503);
+    expect(await probe.json()).toEqual({ status: "shutting down" });
+    expect((await fetch(`${handle.url}/healthz`)).status).toBe(200);
+
+    await stopping;
+    await expect(fetch(readyz)).rejects.toThrow();
+  });
+});
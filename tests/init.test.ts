@@ -0,0 +1,114 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { init } from "../src/init";
+
+const originalProcessExit = process.exit;
+const originalConsoleLog = console.log;
+const originalConsoleError = console.error;
+
+const VITE_CONFIG = `import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// https://vite.dev/config/
+export default defineConfig({
+  plugins: [react()],
+})
+`;
+
+describe("CLI init", () => {
+  let root: string;
+
+  beforeEach(() => {
+    console.log = mock();
+    console.error = mock();
+    // @ts-ignore
+    process.exit = mock((code?: number) => {
+      throw new Error(`Process exited with code ${code}`);
+    });
+
+    root = mkdtempSync(join(tmpdir(), "vef-init-"));
+    writeFileSync(
+      join(root, "package.json"),
+      JSON.stringify(
+        {
+          name: "app",
+          scripts: { dev: "vite", build: "tsc -b && vite build" },
+          dependencies: { react: "^19.0.0" },
+          devDependencies: { typescript: "~5.9.3", vite: "^7.0.0" },
+        },
+        null,
+        2
+      )
+    );
+    writeFileSync(join(root, "vite.config.ts"), VITE_CONFIG);
+  });
+
+  afterEach(() => {
+    process.exit = originalProcessExit;
+    console.log = originalConsoleLog;
+    console.error = originalConsoleError;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("creates the API entry, registers the plugin and adds scripts", async () => {
+    await init({ root });
+
+    expect(console.log).toHaveBeenCalledWith("🔍 Found a React + TypeScript Vite project");
+    expect(readFileSync(join(root, "src", "server", "api.ts"), "utf8")).toContain(
+      'new Elysia({ prefix: "/api" }).get("/hello"'
+    );
+    expect(readFileSync(join(root, "vite.config.ts"), "utf8")).toBe(`import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+import elysiaPlugin from 'vite-elysia-forge'
+
+// https://vite.dev/config/
+export default defineConfig({
+  plugins: [elysiaPlugin({ serverFile: '/src/server/api.ts' }), react()],
+})
+`);
+
+    const pkg = JSON.parse(readFileSync(join(root, "package.json"), "utf8"));
+    expect(pkg.scripts).toEqual({
+      dev: "vite",
+      build: "tsc -b && vite-elysia-forge build",
+      start: "cd dist && bun server.js",
+    });
+  });
+
+  it("starts the server from the server directory of the project config", async () => {
+    writeFileSync(
+      join(root, "vite-elysia-forge.config.ts"),
+      'export default { build: { staticDir: "dist", serverDir: ".output" } };\n'
+    );
+
+    await init({ root });
+
+    const pkg = JSON.parse(readFileSync(join(root, "package.json"), "utf8"));
+    expect(pkg.scripts.start).toBe("cd .output && bun server.js");
+  });
+
+  it("refuses to overwrite existing files without --force", async () => {
+    await init({ root });
+    const viteConfig = readFileSync(join(root, "vite.config.ts"), "utf8");
+    writeFileSync(join(root, "src", "server", "api.ts"), "// mine");
+
+    await expect(init({ root })).rejects.toThrow("Process exited with code 1");
+    expect(console.error).toHaveBeenCalledWith("   src/server/api.ts");
+    expect(readFileSync(join(root, "src", "server", "api.ts"), "utf8")).toBe("// mine");
+
+    await init({ root, force: true });
+    expect(readFileSync(join(root, "src", "server", "api.ts"), "utf8")).toContain("Hello from Elysia");
+    expect(readFileSync(join(root, "vite.config.ts"), "utf8")).toBe(viteConfig);
+  });
+
+  it("fails outside a Vite project", async () => {
+    writeFileSync(join(root, "package.json"), JSON.stringify({ name: "app" }));
+    rmSync(join(root, "vite.config.ts"));
+
+    await expect(init({ root })).rejects.toThrow("Process exited with code 1");
+    expect(console.error).toHaveBeenCalledWith("❌ No Vite project found in this directory.");
+    expect(existsSync(join(root, "src"))).toBe(false);
+  });
+});
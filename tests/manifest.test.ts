@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test";
+import { checkBudget, formatSummary, isServerOutput, parseSize, type BuildManifest } from "../src/manifest";
+
+const manifest = (files: Array<[path: string, size: number]>): BuildManifest => ({
+  builtAt: "2026-01-01T00:00:00.000Z",
+  api: [{ entry: "src/server/api.ts", prefix: "/api" }],
+  server: { path: "dist/server.js", size: 300_000 },
+  binaries: [],
+  static: {
+    dir: "dist",
+    size: files.filter(([path]) => !path.endsWith(".br")).reduce((sum, [, size]) => sum + size, 0),
+    files: files.map(([path, size]) => ({ path, size, hash: "0".repeat(64) })),
+  },
+  targets: [],
+  timings: { total: 1 },
+});
+
+describe("build manifest", () => {
+  it("parses sizes in bytes and binary units", () => {
+    expect(parseSize(2048)).toBe(2048);
+    expect(parseSize("500")).toBe(500);
+    expect(parseSize("500kb")).toBe(512_000);
+    expect(parseSize("1.5 MB")).toBe(1_572_864);
+    expect(parseSize("2m")).toBe(2_097_152);
+    expect(parseSize("big")).toBeUndefined();
+    expect(parseSize(-1)).toBeUndefined();
+  });
+
+  it("tells the server output of a shared directory apart from frontend files", () => {
+    for (const path of ["server", "server.js", "server.js.map", "server-chunks/db-a1b2.js", "build-manifest.json"]) {
+      expect(isServerOutput(path)).toBe(true);
+    }
+    for (const path of ["server-linux-x64", "server-linux-arm64-musl", "server-windows-x64-baseline.exe"]) {
+      expect(isServerOutput(path)).toBe(true);
+    }
+    for (const path of ["server-status.html", "server-side/index.html", "server-chunks", "assets/server.js"]) {
+      expect(isServerOutput(path)).toBe(false);
+    }
+    expect(isServerOutput("openapi.json")).toBe(false);
+    expect(isServerOutput("openapi.json", true)).toBe(true);
+  });
+
+  it("checks the server bundle and JS/CSS chunks against the budget", () => {
+    const built = manifest([
+      ["assets/app.js", 200_000],
+      ["assets/app.css", 50_000],
+      ["assets/hero.png", 900_000],
+    ]);
+
+    expect(checkBudget(built, { server: "256kb", chunk: "100kb" }).exceeded).toEqual([
+      { path: "dist/server.js", size: 300_000, limit: 262_144 },
+      { path: "dist/assets/app.js", size: 200_000, limit: 102_400 },
+    ]);
+    expect(checkBudget(built, { server: "1mb" }).exceeded).toEqual([]);
+  });
+
+  it("summarizes the largest files without precompressed siblings", () => {
+    const summary = formatSummary(
+      manifest([
+        ["index.html", 512],
+        ["assets/app.js", 200_000],
+        ["assets/app.js.br", 60_000],
+        ["favicon.ico", 4_000],
+      ]),
+      2
+    );
+
+    expect(summary.split("\n")).toEqual([
+      "   File                      Size",
+      "   dist/server.js        293.0 KB",
+      "   dist/assets/app.js    195.3 KB",
+      "   dist/favicon.ico        3.9 KB",
+      "   … and 1 more",
+      "   3 static files        199.7 KB",
+    ]);
+  });
+});
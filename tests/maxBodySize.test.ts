@@ -42,25 +42,40 @@ function createDevServerMocks(root = "/tmp/app") {
   return { server, middlewares };
 }
 
-async function runMiddlewareWithBody(mw: Middleware, url: string, method: string, bodyChunks: string[] | Buffer[]) {
+async function runMiddlewareWithBody(
+  mw: Middleware,
+  url: string,
+  method: string,
+  bodyChunks: string[] | Buffer[],
+  headers: Record<string, string> = {}
+) {
   const res: any = {
     statusCode: 200,
     headers: {} as Record<string, string>,
+    chunks: [] as Buffer[],
     setHeader(key: string, value: string) {
       res.headers[key] = value;
     },
+    write(chunk: Uint8Array) {
+      res.chunks.push(Buffer.from(chunk));
+      return true;
+    },
     end(body?: string) {
-      res.body = body;
+      res.body = body ?? Buffer.concat(res.chunks).toString();
     },
+    once: mock(),
+    off: mock(),
   };
   const next = mock();
 
   const req: any = {
     url,
     method,
-    headers: { host: "example.test" },
+    headers: { host: "example.test", ...headers },
+    chunksRead: 0,
     [Symbol.asyncIterator]: async function* () {
       for (const chunk of bodyChunks) {
+        req.chunksRead++;
         yield Buffer.from(chunk);
       }
     },
@@ -73,6 +88,7 @@ async function runMiddlewareWithBody(mw: Middleware, url: string, method: string
     body: res.body,
     headers: res.headers,
     nextCalled: next.mock.calls.length,
+    chunksRead: req.chunksRead,
   };
 }
 
@@ -161,4 +177,68 @@ describe("MAX_BODY_SIZE", () => {
     expect(result.status).toBe(413);
     expect(result.body).toBe("Payload Too Large");
   });
+
+  it("should reject an oversized Content-Length before reading the body", async () => {
+    const { server, middlewares } = createDevServerMocks();
+
+    const api: ApiHandler = {
+      handle: mock(async () => new Response("ok", { status: 200 })),
+    };
+    server.ssrLoadModule.mockResolvedValue({ api });
+
+    const plugin = elysiaPlugin({
+      serverFile: "/server/api.ts",
+      MAX_BODY_SIZE: 10,
+    });
+
+    const configureServer = plugin.configureServer as any;
+    await configureServer(server);
+
+    const middleware = middlewares[0]!;
+
+    const result = await runMiddlewareWithBody(middleware, "/api/test", "POST", ["12345678901"], {
+      "content-length": "11",
+    });
+
+    expect(result.status).toBe(413);
+    expect(result.body).toBe("Payload Too Large");
+    expect(result.chunksRead).toBe(0);
+    expect(api.handle).not.toHaveBeenCalled();
+  });
+
+  it("should return 413 when the limit is crossed while Elysia is reading the stream", async () => {
+    const { server, middlewares } = createDevServerMocks();
+
+    let readError: unknown;
+    const api: ApiHandler = {
+      handle: mock(async (req) => {
+        try {
+          await req.arrayBuffer();
+        } catch (error) {
+          readError = error;
+        }
+        return new Response("should not be sent", { status: 400 });
+      }),
+    };
+    server.ssrLoadModule.mockResolvedValue({ api });
+
+    const plugin = elysiaPlugin({
+      serverFile: "/server/api.ts",
+      MAX_BODY_SIZE: 200 * 1024,
+    });
+
+    const configureServer = plugin.configureServer as any;
+    await configureServer(server);
+
+    const middleware = middlewares[0]!;
+
+    // Larger than the read-ahead buffer, so Elysia starts receiving before the limit is hit
+    const chunk = "a".repeat(100 * 1024);
+    const result = await runMiddlewareWithBody(middleware, "/api/test", "POST", [chunk, chunk, chunk]);
+
+    expect(api.handle).toHaveBeenCalled();
+    expect(readError).toBeDefined();
+    expect(result.status).toBe(413);
+    expect(result.body).toBe("Payload Too Large");
+  });
 });
@@ -0,0 +1,153 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import elysiaPlugin from "../src/index";
+
+type Middleware = (req: any, res: any, next: () => void) => Promise<void> | void;
+
+const originalConsoleError = console.error;
+
+function createDevServerMocks(root: string, modules: Record<string, unknown>) {
+  const middlewares: Middleware[] = [];
+
+  const server = {
+    config: { root },
+    watcher: {
+      add: mock(),
+      on: mock(),
+    },
+    moduleGraph: {
+      getModuleByUrl: mock(),
+      getModulesByFile: mock(),
+      invalidateModule: mock(),
+    },
+    ssrLoadModule: mock(async (path: string) => modules[path]),
+    ssrFixStacktrace: mock(),
+    transformIndexHtml: mock(async (_url: string, html: string) =>
+      html.replace("<head>", '<head><script type="module" src="/@vite/client"></script>')
+    ),
+    ws: {
+      send: mock(),
+    },
+    middlewares: {
+      use: mock((mw: Middleware) => {
+        middlewares.push(mw);
+      }),
+    },
+  };
+
+  return { server, middlewares };
+}
+
+async function runMiddleware(mw: Middleware, url: string, accept = "text/html") {
+  const res: any = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    chunks: [] as Uint8Array[],
+    setHeader(key: string, value: string) {
+      res.headers[key] = value;
+    },
+    write(chunk: Uint8Array) {
+      res.chunks.push(chunk);
+      return true;
+    },
+    end(body?: string) {
+      res.body = body ?? Buffer.concat(res.chunks).toString();
+    },
+    once: mock(),
+    off: mock(),
+  };
+  const next = mock();
+
+  await mw({ url, originalUrl: url, method: "GET", headers: { host: "localhost:5173", accept } }, res, next);
+
+  return { status: res.statusCode, body: res.body as string, headers: res.headers, nextCalled: next.mock.calls.length };
+}
+
+describe("ssrEntry", () => {
+  let root: string;
+
+  beforeEach(() => {
+    console.error = mock();
+    root = mkdtempSync(join(tmpdir(), "vef-ssr-"));
+    writeFileSync(join(root, "index.html"), "<html><head><!--app-head--></head><body><!--app-html--></body></html>");
+  });
+
+  afterEach(() => {
+    console.error = originalConsoleError;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("switches Vite to a custom app type so pages reach the SSR middleware", async () => {
+    const plugin = elysiaPlugin({ ssrEntry: "/src/entry-server.ts" });
+
+    expect(await (plugin.config as any)({}, { command: "serve" })).toEqual({ appType: "custom" });
+    expect(await (elysiaPlugin().config as any)({}, { command: "serve" })).toBeUndefined();
+  });
+
+  it("renders pages after Vite's middlewares with the transformed template and in-process API", async () => {
+    const api = { handle: mock(async () => Response.json({ name: "Ada" })) };
+    const ssr = {
+      render: mock(async (url: string, context: any) => {
+        const user = await (await context.fetch("/api/users/1")).json();
+        return { html: `<h1>${user.name} at ${url}</h1>`, head: "<title>Ada</title>" };
+      }),
+    };
+    const { server, middlewares } = createDevServerMocks(root, {
+      "/src/server/api.ts": { api },
+      "/src/entry-server.ts": ssr,
+    });
+
+    const plugin = elysiaPlugin({ ssrEntry: "/src/entry-server.ts" });
+    const installSsr = await (plugin.configureServer as any)(server);
+    expect(middlewares).toHaveLength(1);
+    installSsr();
+
+    const result = await runMiddleware(middlewares[1]!, "/users/1?tab=posts");
+
+    expect(result.status).toBe(200);
+    expect(result.headers["content-type"]).toBe("text/html; charset=utf-8");
+    expect(result.body).toBe(
+      '<html><head><script type="module" src="/@vite/client"></script><title>Ada</title></head>' +
+        "<body><h1>Ada at /users/1?tab=posts</h1></body></html>"
+    );
+    expect(ssr.render.mock.calls[0]![1].api).toBe(api);
+    expect(api.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves API and non-HTML requests to other middlewares", async () => {
+    const { server, middlewares } = createDevServerMocks(root, {
+      "/src/server/api.ts": { api: { handle: mock() } },
+      "/src/entry-server.ts": { render: mock() },
+    });
+
+    const plugin = elysiaPlugin({ ssrEntry: "/src/entry-server.ts" });
+    (await (plugin.configureServer as any)(server))();
+
+    expect((await runMiddleware(middlewares[1]!, "/api/users")).nextCalled).toBe(1);
+    expect((await runMiddleware(middlewares[1]!, "/missing.png", "image/*")).nextCalled).toBe(1);
+  });
+
+  it("reports render errors to the overlay", async () => {
+    const { server, middlewares } = createDevServerMocks(root, {
+      "/src/server/api.ts": { api: { handle: mock() } },
+      "/src/entry-server.ts": {
+        render: () => {
+          throw new Error("window is not defined");
+        },
+      },
+    });
+
+    const plugin = elysiaPlugin({ ssrEntry: "/src/entry-server.ts" });
+    (await (plugin.configureServer as any)(server))();
+
+    const result = await runMiddleware(middlewares[1]!, "/");
+
+    expect(result.status).toBe(500);
+    expect(result.body).toContain("window is not defined");
+    expect(server.ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "error", err: expect.objectContaining({ message: "window is not defined" }) })
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it, mock } from "bun:test";
+import elysiaPlugin from "../src/index";
+
+type ApiHandler = { handle: (request: Request) => Promise<Response> };
+
+type Middleware = (req: any, res: any, next: () => void) => Promise<void> | void;
+
+function createDevServerMocks(root = "/tmp/app") {
+  const middlewares: Middleware[] = [];
+
+  const server = {
+    config: { root },
+    watcher: {
+      add: mock(),
+      on: mock(),
+    },
+    moduleGraph: {
+      getModuleByUrl: mock(),
+      getModulesByFile: mock(),
+      invalidateModule: mock(),
+    },
+    ssrLoadModule: mock(),
+    middlewares: {
+      use: mock((mw: Middleware) => {
+        middlewares.push(mw);
+      }),
+    },
+    httpServer: {
+      once: mock(),
+    },
+  };
+
+  return { server, middlewares };
+}
+
+function createResponseMock() {
+  const listeners: Record<string, Array<() => void>> = {};
+  const res: any = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    writes: [] as Buffer[],
+    ended: false,
+    backpressure: false,
+    setHeader(key: string, value: string) {
+      res.headers[key] = value;
+    },
+    write(chunk: Uint8Array) {
+      res.writes.push(Buffer.from(chunk));
+      return !res.backpressure;
+    },
+    end() {
+      res.ended = true;
+    },
+    once(event: string, cb: () => void) {
+      (listeners[event] ||= []).push(cb);
+    },
+    off(event: string, cb: () => void) {
+      listeners[event] = (listeners[event] || []).filter((fn) => fn !== cb);
+    },
+    emit(event: string) {
+      for (const cb of listeners[event] || []) cb();
+    },
+  };
+  return res;
+}
+
+async function setup(api: ApiHandler) {
+  const { server, middlewares } = createDevServerMocks();
+  server.ssrLoadModule.mockResolvedValue({ api });
+
+  const plugin = elysiaPlugin({ serverFile: "/server/api.ts" });
+  const configureServer = plugin.configureServer as any;
+  await configureServer(server);
+
+  return middlewares[0]!;
+}
+
+describe("Streaming responses", () => {
+  it("writes each chunk of a streamed body as it arrives", async () => {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode("data: one\n\n"));
+        controller.enqueue(encoder.encode("data: two\n\n"));
+        controller.close();
+      },
+    });
+
+    const middleware = await setup({
+      handle: mock(async () => new Response(stream, { headers: { "content-type": "text/event-stream" } })),
+    });
+
+    const res = createResponseMock();
+    await middleware({ url: "/api/events", method: "GET", headers: { host: "example.test" } }, res, mock());
+
+    expect(res.headers["content-type"]).toBe("text/event-stream");
+    expect(res.writes.map((chunk: Buffer) => chunk.toString())).toEqual(["data: one\n\n", "data: two\n\n"]);
+    expect(res.ended).toBe(true);
+  });
+
+  it("preserves binary response bodies byte-for-byte", async () => {
+    const binaryData = new Uint8Array([0x00, 0xd3, 0xeb, 0xe9, 0xe1, 0xff]);
+
+    const middleware = await setup({
+      handle: mock(async () => new Response(binaryData, { headers: { "content-type": "application/octet-stream" } })),
+    });
+
+    const res = createResponseMock();
+    await middleware({ url: "/api/download", method: "GET", headers: { host: "example.test" } }, res, mock());
+
+    expect(Buffer.concat(res.writes).equals(Buffer.from(binaryData))).toBe(true);
+    expect(res.ended).toBe(true);
+  });
+
+  it("waits for drain before pulling the next chunk", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1]));
+        controller.enqueue(new Uint8Array([2]));
+        controller.close();
+      },
+    });
+
+    const middleware = await setup({
+      handle: mock(async () => new Response(stream)),
+    });
+
+    const res = createResponseMock();
+    res.backpressure = true;
+    const done = middleware({ url: "/api/blob", method: "GET", headers: { host: "example.test" } }, res, mock());
+
+    await Bun.sleep(5);
+    expect(res.writes).toHaveLength(1);
+
+    res.backpressure = false;
+    res.emit("drain");
+    await done;
+
+    expect(res.writes).toHaveLength(2);
+    expect(res.ended).toBe(true);
+  });
+});
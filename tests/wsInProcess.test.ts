@@ -0,0 +1,146 @@
+import { createServer, type Server } from "node:http";
+import { afterEach, describe, expect, it, mock } from "bun:test";
+import { Elysia } from "elysia";
+import elysiaPlugin from "../src/index";
+
+type Watchers = Record<string, (file: string) => Promise<void> | void>;
+
+/**
+ * Minimal stand-in for an Elysia app with a single `.ws()` route that echoes with `tag`.
+ */
+function createWsApi(tag: string) {
+  const api: any = {
+    server: null,
+    handle: mock(async (request: Request) => {
+      const upgraded = api.server?.upgrade(request, {
+        data: {
+          message(ws: any, message: string) {
+            ws.send(`${tag}: ${message}`);
+          },
+        },
+      });
+      return upgraded ? undefined : new Response("Upgrade failed", { status: 400 });
+    }),
+  };
+  return api;
+}
+
+function createDevServerMocks(httpServer: Server, root = "/tmp/app") {
+  const watchers: Watchers = {};
+  const middlewares: unknown[] = [];
+
+  const server = {
+    config: { root },
+    watcher: {
+      add: mock(),
+      on: mock((event: string, cb: (file: string) => Promise<void> | void) => {
+        watchers[event] = cb;
+      }),
+    },
+    moduleGraph: {
+      getModuleByUrl: mock(),
+      getModulesByFile: mock(),
+      invalidateModule: mock(),
+    },
+    ssrLoadModule: mock(),
+    middlewares: {
+      use: mock((mw: unknown) => {
+        middlewares.push(mw);
+      }),
+    },
+    httpServer,
+  };
+
+  return { server, watchers, middlewares };
+}
+
+async function echo(port: number, path: string, message: string) {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}${path}`);
+  const reply = await new Promise<string>((resolve, reject) => {
+    socket.onopen = () => socket.send(message);
+    socket.onmessage = (event) => resolve(String(event.data));
+    socket.onerror = () => reject(new Error("WebSocket error"));
+  });
+  socket.close();
+  return reply;
+}
+
+describe("In-process WebSocket mode", () => {
+  let httpServer: Server | undefined;
+
+  afterEach(async () => {
+    if (!httpServer) return;
+    const closing = httpServer;
+    httpServer = undefined;
+    closing.closeAllConnections();
+    await new Promise((resolve) => closing.close(resolve));
+  });
+
+  it("does not configure a proxy when running on Bun", async () => {
+    const plugin = elysiaPlugin({ ws: true });
+    expect(await (plugin.config as any)({}, { command: "serve", mode: "development" })).toBeUndefined();
+  });
+
+  it("keeps the proxy setup when the separate process mode is requested", async () => {
+    const plugin = elysiaPlugin({ ws: true, wsMode: "process", backendPort: 4001 });
+    const config = await (plugin.config as any)({}, { command: "serve", mode: "development" });
+    expect(config.server.proxy["/api"]).toEqual({
+      target: "http://localhost:4001",
+      changeOrigin: true,
+      ws: true,
+    });
+  });
+
+  it("dispatches upgrades to the currently loaded api", async () => {
+    httpServer = createServer();
+    await new Promise<void>((resolve) => httpServer!.listen(0, "127.0.0.1", resolve));
+    const port = (httpServer.address() as { port: number }).port;
+
+    const { server, watchers, middlewares } = createDevServerMocks(httpServer);
+    server.ssrLoadModule
+      .mockResolvedValueOnce({ api: createWsApi("v1") })
+      .mockResolvedValueOnce({ api: createWsApi("v2") });
+
+    const entryModule = { id: "api-module", importers: new Set() };
+    server.moduleGraph.getModuleByUrl.mockResolvedValue(entryModule);
+    server.moduleGraph.getModulesByFile.mockReturnValue(new Set([entryModule]));
+
+    const plugin = elysiaPlugin({ serverFile: "/server/api.ts", ws: true });
+    await (plugin.configureServer as any)(server);
+
+    // HTTP routes are still served by the middleware
+    expect(middlewares).toHaveLength(1);
+
+    expect(await echo(port, "/api/ws", "hello")).toBe("v1: hello");
+
+    await watchers.change?.("/tmp/app/server/api.ts");
+
+    expect(await echo(port, "/api/ws", "hello")).toBe("v2: hello");
+  });
+
+  it("serves .ws() routes of a prefixed Elysia app with its own error hook", async () => {
+    httpServer = createServer();
+    await new Promise<void>((resolve) => httpServer!.listen(0, "127.0.0.1", resolve));
+    const port = (httpServer.address() as { port: number }).port;
+
+    // An app with onError is mounted in the dev server's error-recording wrapper
+    const api = new Elysia({ prefix: "/api" })
+      .onError(({ set }) => {
+        set.status = 503;
+        return { code: "DB_DOWN" };
+      })
+      .ws("/chat", {
+        message(ws, message) {
+          ws.send(`elysia: ${message}`);
+        },
+      });
+
+    const { server } = createDevServerMocks(httpServer);
+    server.ssrLoadModule.mockResolvedValue({ api });
+
+    const plugin = elysiaPlugin({ serverFile: "/server/api.ts", ws: true });
+    await (plugin.configureServer as any)(server);
+
+    expect(await echo(port, "/api/chat", "hello")).toBe("elysia: hello");
+  });
+});
@@ -1,9 +1,12 @@
 import { defineConfig } from "tsup";
 
+// Resolved from the project at runtime: Vite loads the plugin, and the API must share the project's Elysia
+const external = ["vite", "elysia"];
+
 export default defineConfig([
-  // Main Vite plugin (both CJS and ESM for compatibility)
+  // Main Vite plugin and config helpers (both CJS and ESM for compatibility)
   {
-    entry: ["src/index.ts"],
+    entry: ["src/index.ts", "src/config.ts"],
     format: ["cjs", "esm"],
     dts: true,
     clean: true,
@@ -11,6 +14,7 @@ export default defineConfig([
     treeshake: true,
     splitting: false,
     minify: true,
+    external,
   },
   // Production server and CLI (ESM only, Bun-specific)
   {
@@ -21,5 +25,6 @@ export default defineConfig([
     treeshake: true,
     splitting: false,
     minify: true,
+    external,
   },
 ]);